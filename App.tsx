@@ -19,6 +19,7 @@ import { theme } from './src/theme/theme';
 
 // Import API service
 import { apiService } from './src/services/api';
+import { offlineQueue } from './src/services/offlineQueue';
 
 const Stack = createStackNavigator();
 
@@ -31,6 +32,14 @@ export default function App() {
     checkAuthStatus();
   }, []);
 
+  // Replay interviews queued offline whenever the user is signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    offlineQueue.startAutoSync();
+    return () => offlineQueue.stopAutoSync();
+  }, [isAuthenticated]);
+
   const checkAuthStatus = async () => {
     try {
       console.log('Checking authentication status...');
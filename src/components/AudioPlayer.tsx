@@ -0,0 +1,369 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  PanResponder,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Text } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { formatTimecode } from '../logic/audioTimecodes';
+
+const POSITION_KEY_PREFIX = 'audioPosition:';
+const POSITION_SAVE_INTERVAL_MS = 5000;
+const SKIP_MS = 10000;
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+interface AudioPlayerProps {
+  interviewId: string;
+  // One URL per recording file; resumed interviews have several
+  audioUrls: (string | null)[]; // null for a part that is not uploaded
+}
+
+export interface AudioPlayerHandle {
+  playFrom: (segment: number, offset: number) => Promise<void>;
+}
+
+interface SavedPosition {
+  segment: number;
+  position: number;
+}
+
+// Player for interview recordings: seekable progress bar, elapsed/total time,
+// playback speed, skip back/forward and a resume position remembered per
+// interview. Multi-file recordings play one part after the other.
+const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(({ interviewId, audioUrls }, ref) => {
+  const sound = useRef<Audio.Sound | null>(null);
+  const lastSavedAt = useRef(0);
+  const [segment, setSegment] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [savedPosition, setSavedPosition] = useState<SavedPosition | null>(null);
+  const [seekPreview, setSeekPreview] = useState<number | null>(null);
+  const barWidth = useRef(0);
+
+  // Keep the latest values for callbacks created once
+  const state = useRef({ segment, position, duration, rate });
+  state.current = { segment, position, duration, rate };
+
+  const positionKey = `${POSITION_KEY_PREFIX}${interviewId}`;
+
+  const savePosition = async (current: SavedPosition | null) => {
+    try {
+      if (current && current.position > 0) {
+        await AsyncStorage.setItem(positionKey, JSON.stringify(current));
+      } else {
+        await AsyncStorage.removeItem(positionKey);
+      }
+    } catch (error) {
+      console.error('Error saving audio position:', error);
+    }
+  };
+
+  useEffect(() => {
+    AsyncStorage.getItem(positionKey)
+      .then(stored => {
+        if (stored) setSavedPosition(JSON.parse(stored));
+      })
+      .catch(error => console.error('Error reading audio position:', error));
+
+    return () => {
+      const { segment: lastSegment, position: lastPosition } = state.current;
+      if (sound.current) {
+        savePosition({ segment: lastSegment, position: lastPosition });
+        sound.current.unloadAsync().catch(() => {});
+        sound.current = null;
+      }
+    };
+  }, [positionKey]);
+
+  // First part from the given one on that can be played, or -1
+  const findPlayableSegment = (from: number) =>
+    audioUrls.findIndex((url, index) => index >= from && !!url);
+
+  const loadSegment = async (segmentIndex: number, positionMillis: number) => {
+    const uri = audioUrls[segmentIndex];
+    if (!uri) return;
+
+    setIsLoading(true);
+    try {
+      if (sound.current) {
+        await sound.current.unloadAsync();
+        sound.current = null;
+      }
+
+      const { sound: newSound } = await Audio.Sound.createAsync(
+        { uri },
+        {
+          shouldPlay: true,
+          positionMillis,
+          rate: state.current.rate,
+          shouldCorrectPitch: true,
+          progressUpdateIntervalMillis: 500,
+        },
+        handleStatusUpdate
+      );
+      sound.current = newSound;
+      setSegment(segmentIndex);
+      setPosition(positionMillis);
+      setSavedPosition(null);
+    } catch (error) {
+      console.error('Error loading audio:', error);
+      setIsPlaying(false);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStatusUpdate = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+
+    setPosition(status.positionMillis);
+    setDuration(status.durationMillis || 0);
+    setIsPlaying(status.isPlaying);
+
+    const now = Date.now();
+    if (status.isPlaying && now - lastSavedAt.current > POSITION_SAVE_INTERVAL_MS) {
+      lastSavedAt.current = now;
+      savePosition({ segment: state.current.segment, position: status.positionMillis });
+    }
+
+    if (status.didJustFinish) {
+      const nextSegment = findPlayableSegment(state.current.segment + 1);
+      if (nextSegment !== -1) {
+        loadSegment(nextSegment, 0);
+      } else {
+        // Played to the end, so the next review starts from the beginning
+        setIsPlaying(false);
+        savePosition(null);
+      }
+    }
+  };
+
+  const togglePlay = async () => {
+    try {
+      if (!sound.current) {
+        const startSegment = savedPosition ? savedPosition.segment : findPlayableSegment(0);
+        await loadSegment(startSegment, savedPosition?.position || 0);
+      } else if (isPlaying) {
+        await sound.current.pauseAsync();
+        savePosition({ segment, position });
+      } else {
+        await sound.current.playAsync();
+      }
+    } catch (error) {
+      console.error('Error playing audio:', error);
+    }
+  };
+
+  const seekTo = async (positionMillis: number) => {
+    if (!sound.current) return;
+    const clamped = Math.max(0, Math.min(positionMillis, state.current.duration || positionMillis));
+    try {
+      await sound.current.setPositionAsync(clamped);
+      setPosition(clamped);
+    } catch (error) {
+      console.error('Error seeking audio:', error);
+    }
+  };
+
+  const changeRate = async () => {
+    const nextRate = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+    setRate(nextRate);
+    try {
+      await sound.current?.setRateAsync(nextRate, true);
+    } catch (error) {
+      console.error('Error changing playback speed:', error);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    playFrom: async (segmentIndex: number, offset: number) => {
+      if (sound.current && segmentIndex === state.current.segment) {
+        await seekTo(offset);
+        await sound.current.playAsync();
+      } else {
+        await loadSegment(segmentIndex, offset);
+      }
+    },
+  }));
+
+  // Tap or drag anywhere on the bar to seek
+  const positionAt = (x: number) =>
+    barWidth.current > 0 ? Math.max(0, Math.min(1, x / barWidth.current)) * state.current.duration : 0;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: event => setSeekPreview(positionAt(event.nativeEvent.locationX)),
+      onPanResponderMove: event => setSeekPreview(positionAt(event.nativeEvent.locationX)),
+      onPanResponderRelease: event => {
+        setSeekPreview(null);
+        seekToRef.current(positionAt(event.nativeEvent.locationX));
+      },
+      onPanResponderTerminate: () => setSeekPreview(null),
+    })
+  ).current;
+  const seekToRef = useRef(seekTo);
+  seekToRef.current = seekTo;
+
+  const shownPosition = seekPreview ?? position;
+  const progress = duration > 0 ? Math.min(1, shownPosition / duration) : 0;
+  const isReady = !!sound.current && duration > 0;
+
+  return (
+    <View style={styles.container}>
+      {audioUrls.length > 1 && (
+        <Text style={styles.partText}>Part {segment + 1} of {audioUrls.length}</Text>
+      )}
+
+      <View
+        style={styles.progressTrack}
+        onLayout={event => { barWidth.current = event.nativeEvent.layout.width; }}
+        {...(isReady ? panResponder.panHandlers : {})}
+      >
+        <View pointerEvents="none" style={styles.progressBackground} />
+        <View pointerEvents="none" style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+        <View pointerEvents="none" style={[styles.progressThumb, { left: `${progress * 100}%` }]} />
+      </View>
+
+      <View style={styles.timeRow}>
+        <Text style={styles.timeText}>{formatTimecode(shownPosition)}</Text>
+        <Text style={styles.timeText}>{duration > 0 ? formatTimecode(duration) : '--:--'}</Text>
+      </View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.controlButton} onPress={() => seekTo(position - SKIP_MS)} disabled={!isReady}>
+          <Ionicons name="play-back" size={20} color={isReady ? '#1f2937' : '#9ca3af'} />
+          <Text style={[styles.controlLabel, !isReady && styles.disabledText]}>10s</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.playButton} onPress={togglePlay} disabled={isLoading || findPlayableSegment(0) === -1}>
+          {isLoading ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Ionicons name={isPlaying ? 'pause' : 'play'} size={24} color="#ffffff" />
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.controlButton} onPress={() => seekTo(position + SKIP_MS)} disabled={!isReady}>
+          <Text style={[styles.controlLabel, !isReady && styles.disabledText]}>10s</Text>
+          <Ionicons name="play-forward" size={20} color={isReady ? '#1f2937' : '#9ca3af'} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.rateButton} onPress={changeRate}>
+          <Text style={styles.rateText}>{rate}x</Text>
+        </TouchableOpacity>
+      </View>
+
+      {!sound.current && savedPosition && savedPosition.position > 0 && (
+        <Text style={styles.resumeText}>
+          Resumes from {formatTimecode(savedPosition.position)}
+          {audioUrls.length > 1 ? ` in part ${savedPosition.segment + 1}` : ''}
+        </Text>
+      )}
+    </View>
+  );
+});
+
+export default AudioPlayer;
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  partText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 6,
+  },
+  progressTrack: {
+    height: 24,
+    justifyContent: 'center',
+  },
+  progressBackground: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e5e7eb',
+  },
+  progressFill: {
+    position: 'absolute',
+    left: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#3b82f6',
+  },
+  progressThumb: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    marginLeft: -7,
+    borderRadius: 7,
+    backgroundColor: '#3b82f6',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  timeText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 8,
+  },
+  controlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    padding: 8,
+  },
+  controlLabel: {
+    fontSize: 12,
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  disabledText: {
+    color: '#9ca3af',
+  },
+  playButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rateButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  rateText: {
+    fontSize: 12,
+    color: '#1f2937',
+    fontWeight: '600',
+  },
+  resumeText: {
+    fontSize: 12,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,328 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Button, TextInput, ActivityIndicator } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { LocationService, LocationResult, PositionFix, meetsAccuracy } from '../utils/location';
+import { Geocoder } from '../services/geocoding';
+
+const DEFAULT_WAIT_SECONDS = 60;
+const MIN_OVERRIDE_REASON_LENGTH = 10;
+
+interface GpsAccuracyGateProps {
+  requiredAccuracy: number | null; // metres; null accepts any fix
+  waitSeconds?: number;
+  allowOverride?: boolean;
+  geocoder?: Geocoder | null;
+  onAccept: (location: LocationResult) => void;
+  onCancel: () => void;
+}
+
+// Shown before a CAPI interview starts until the GPS reports a fix of the
+// survey's required accuracy. After the wait runs out the interviewer can
+// retry, keep waiting, or start anyway with a typed reason that is recorded
+// with the location.
+export default function GpsAccuracyGate({
+  requiredAccuracy,
+  waitSeconds = DEFAULT_WAIT_SECONDS,
+  allowOverride = true,
+  geocoder,
+  onAccept,
+  onCancel,
+}: GpsAccuracyGateProps) {
+  const [latestFix, setLatestFix] = useState<PositionFix | null>(null);
+  const [bestFix, setBestFix] = useState<PositionFix | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [deadline, setDeadline] = useState(waitSeconds);
+  const [isWatching, setIsWatching] = useState(true);
+  const [watchError, setWatchError] = useState<string | null>(null);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [showOverride, setShowOverride] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  const subscription = useRef<{ remove: () => void } | null>(null);
+  const accepted = useRef(false);
+  const onAcceptRef = useRef(onAccept);
+  onAcceptRef.current = onAccept;
+  const geocoderRef = useRef(geocoder);
+  geocoderRef.current = geocoder;
+
+  const stopWatching = () => {
+    subscription.current?.remove();
+    subscription.current = null;
+  };
+
+  const accept = useCallback(async (fix: PositionFix) => {
+    if (accepted.current) return;
+    accepted.current = true;
+    stopWatching();
+    setIsAccepting(true);
+    console.log(`📍 GPS fix accepted: ±${Math.round(fix.accuracy)} m`);
+    onAcceptRef.current(await LocationService.toLocationResult(fix, geocoderRef.current));
+  }, []);
+
+  const handleFix = useCallback((fix: PositionFix) => {
+    setLatestFix(fix);
+    setBestFix(prev => (!prev || !prev.accuracy || (fix.accuracy > 0 && fix.accuracy < prev.accuracy) ? fix : prev));
+    if (meetsAccuracy(fix, requiredAccuracy)) {
+      accept(fix);
+    }
+  }, [requiredAccuracy, accept]);
+
+  // Watch the receiver while waiting
+  useEffect(() => {
+    if (!isWatching) return;
+
+    let cancelled = false;
+    setWatchError(null);
+    LocationService.watchPositionFixes(handleFix)
+      .then(watch => {
+        if (cancelled) {
+          watch.remove();
+        } else {
+          subscription.current = watch;
+        }
+      })
+      .catch((error: any) => {
+        console.error('GPS watch failed:', error);
+        setWatchError(error.message || 'Location unavailable');
+        setIsWatching(false);
+      });
+
+    return () => {
+      cancelled = true;
+      stopWatching();
+    };
+  }, [isWatching, handleFix]);
+
+  // Count the wait and stop once it runs out
+  useEffect(() => {
+    if (!isWatching) return;
+
+    const timer = setInterval(() => setElapsed(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isWatching]);
+
+  useEffect(() => {
+    if (isWatching && elapsed >= deadline) {
+      setIsWatching(false);
+    }
+  }, [isWatching, elapsed, deadline]);
+
+  const handleRetry = () => {
+    setLatestFix(null);
+    setBestFix(null);
+    setElapsed(0);
+    setDeadline(waitSeconds);
+    setIsWatching(true);
+  };
+
+  const handleKeepWaiting = () => {
+    setDeadline(elapsed + waitSeconds);
+    setIsWatching(true);
+  };
+
+  const handleOverride = async () => {
+    const reason = overrideReason.trim();
+    if (reason.length < MIN_OVERRIDE_REASON_LENGTH || accepted.current) return;
+    accepted.current = true;
+    stopWatching();
+    setIsWatching(false);
+    setIsAccepting(true);
+
+    const override = {
+      reason,
+      requiredAccuracy,
+      bestAccuracy: bestFix ? Math.round(bestFix.accuracy) : null,
+      waitedSeconds: elapsed,
+      overriddenAt: new Date().toISOString(),
+    };
+    console.log('📍 GPS accuracy overridden:', override);
+
+    const base: LocationResult = bestFix
+      ? await LocationService.toLocationResult(bestFix, geocoder)
+      : {
+        latitude: 0,
+        longitude: 0,
+        accuracy: 0,
+        address: 'Location unavailable',
+        city: '',
+        state: '',
+        country: '',
+        timestamp: new Date().toISOString(),
+        source: 'manual',
+      };
+    onAcceptRef.current({ ...base, source: 'manual', override });
+  };
+
+  const formatElapsed = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+  if (isAccepting) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#2563eb" />
+        <Text style={styles.statusText}>Starting interview...</Text>
+      </View>
+    );
+  }
+
+  const reasonTooShort = overrideReason.trim().length < MIN_OVERRIDE_REASON_LENGTH;
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Ionicons name="navigate-circle-outline" size={56} color={isWatching ? '#2563eb' : '#f59e0b'} />
+      <Text style={styles.title}>{isWatching ? 'Acquiring GPS…' : 'GPS accuracy not reached'}</Text>
+
+      <Text style={styles.accuracyText}>
+        {latestFix && latestFix.accuracy > 0 ? `±${Math.round(latestFix.accuracy)} m` : '—'}
+      </Text>
+      {requiredAccuracy ? (
+        <Text style={styles.statusText}>Required: ±{requiredAccuracy} m</Text>
+      ) : null}
+      {bestFix && bestFix !== latestFix && (
+        <Text style={styles.statusText}>Best so far: ±{Math.round(bestFix.accuracy)} m</Text>
+      )}
+      <Text style={styles.statusText}>Waiting {formatElapsed(elapsed)}</Text>
+      {isWatching && <ActivityIndicator style={styles.spinner} color="#2563eb" />}
+
+      {!isWatching && (
+        <>
+          <Text style={styles.hintText}>
+            {watchError
+              ? `Could not get a location: ${watchError}`
+              : 'Move to an open area away from tall buildings and trees, then retry.'}
+          </Text>
+          <View style={styles.buttonRow}>
+            <Button mode="contained" onPress={handleRetry} icon="refresh" style={styles.button}>
+              Retry
+            </Button>
+            {!watchError && (
+              <Button mode="outlined" onPress={handleKeepWaiting} icon="timer-sand" style={styles.button}>
+                Keep Waiting
+              </Button>
+            )}
+          </View>
+        </>
+      )}
+
+      {allowOverride && !showOverride && (elapsed >= waitSeconds || !!watchError) && (
+        <Button mode="text" onPress={() => setShowOverride(true)} style={styles.overrideToggle}>
+          Start without required accuracy
+        </Button>
+      )}
+
+      {allowOverride && showOverride && (
+        <View style={styles.overrideCard}>
+          <Text style={styles.overrideTitle}>Manual override</Text>
+          <Text style={styles.hintText}>
+            The interview will be marked as started without a verified location. Explain why.
+          </Text>
+          <TextInput
+            mode="outlined"
+            value={overrideReason}
+            onChangeText={setOverrideReason}
+            placeholder="e.g. Respondent's house is in a basement with no GPS signal"
+            multiline
+            numberOfLines={3}
+            style={styles.reasonInput}
+          />
+          {reasonTooShort && overrideReason.length > 0 && (
+            <Text style={styles.errorText}>Please give at least {MIN_OVERRIDE_REASON_LENGTH} characters</Text>
+          )}
+          <View style={styles.buttonRow}>
+            <Button mode="outlined" onPress={() => setShowOverride(false)} style={styles.button}>
+              Back
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleOverride}
+              disabled={reasonTooShort}
+              buttonColor="#f59e0b"
+              style={styles.button}
+            >
+              Start Anyway
+            </Button>
+          </View>
+        </View>
+      )}
+
+      <Button mode="text" onPress={onCancel} textColor="#6b7280" style={styles.cancelButton}>
+        Cancel Interview
+      </Button>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#f8fafc',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  accuracyText: {
+    fontSize: 40,
+    fontWeight: '700',
+    color: '#1f2937',
+    marginVertical: 8,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  spinner: {
+    marginTop: 16,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#4b5563',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+  button: {
+    marginHorizontal: 6,
+  },
+  overrideToggle: {
+    marginTop: 16,
+  },
+  overrideCard: {
+    alignSelf: 'stretch',
+    marginTop: 24,
+    padding: 16,
+    borderRadius: 8,
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fcd34d',
+  },
+  overrideTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#92400e',
+  },
+  reasonInput: {
+    marginTop: 12,
+    backgroundColor: '#ffffff',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  cancelButton: {
+    marginTop: 24,
+  },
+});
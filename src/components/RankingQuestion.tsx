@@ -0,0 +1,196 @@
+import React, { useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  Animated,
+  PanResponder,
+  TouchableOpacity,
+} from 'react-native';
+import { Text } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { getOptionValue } from '../logic/ranking';
+
+interface RankingQuestionProps {
+  options: any[];
+  ranked: string[];
+  limit: number;
+  onToggle: (value: string) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+}
+
+const DEFAULT_ROW_HEIGHT = 56;
+
+interface RankedRowProps {
+  rank: number;
+  text: string;
+  isFirst: boolean;
+  isLast: boolean;
+  rowHeight: React.MutableRefObject<number>;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+// A ranked entry that can be dragged by its handle. The drop position is
+// worked out from how many row heights the finger travelled.
+function RankedRow({ rank, text, isFirst, isLast, rowHeight, onMove, onRemove }: RankedRowProps) {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const onMoveRef = useRef(onMove);
+  onMoveRef.current = onMove;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false, // Keep the ScrollView from taking over mid-drag
+      onPanResponderMove: (_, gesture) => translateY.setValue(gesture.dy),
+      onPanResponderRelease: (_, gesture) => {
+        translateY.setValue(0);
+        const offset = Math.round(gesture.dy / rowHeight.current);
+        if (offset !== 0) onMoveRef.current(offset);
+      },
+      onPanResponderTerminate: () => translateY.setValue(0),
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      style={[styles.rankedRow, { transform: [{ translateY }] }]}
+      onLayout={(event) => { rowHeight.current = event.nativeEvent.layout.height || DEFAULT_ROW_HEIGHT; }}
+    >
+      <View {...panResponder.panHandlers} style={styles.dragHandle}>
+        <Ionicons name="reorder-three" size={24} color="#6b7280" />
+      </View>
+      <View style={styles.rankBadge}>
+        <Text style={styles.rankBadgeText}>{rank}</Text>
+      </View>
+      <Text style={styles.rankedText}>{text}</Text>
+      <TouchableOpacity disabled={isFirst} onPress={() => onMove(-1)} style={styles.rowButton}>
+        <Ionicons name="chevron-up" size={20} color={isFirst ? '#d1d5db' : '#2563eb'} />
+      </TouchableOpacity>
+      <TouchableOpacity disabled={isLast} onPress={() => onMove(1)} style={styles.rowButton}>
+        <Ionicons name="chevron-down" size={20} color={isLast ? '#d1d5db' : '#2563eb'} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onRemove} style={styles.rowButton}>
+        <Ionicons name="close" size={20} color="#ef4444" />
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+export default function RankingQuestion({ options, ranked, limit, onToggle, onMove }: RankingQuestionProps) {
+  const rowHeight = useRef(DEFAULT_ROW_HEIGHT);
+  const getText = (value: string) => {
+    const option = options.find(opt => getOptionValue(opt) === value);
+    return option ? (typeof option === 'string' ? option : option.text) : value;
+  };
+  const unranked = options.filter(option => !ranked.includes(getOptionValue(option)));
+  const isFull = ranked.length >= limit;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.instructions}>
+        {limit < options.length
+          ? `Tap your top ${limit} in order of preference (${ranked.length}/${limit})`
+          : `Tap the options in order of preference (${ranked.length}/${limit})`}
+      </Text>
+
+      {ranked.map((value, index) => (
+        <RankedRow
+          key={value}
+          rank={index + 1}
+          text={getText(value)}
+          isFirst={index === 0}
+          isLast={index === ranked.length - 1}
+          rowHeight={rowHeight}
+          onMove={(offset) => onMove(index, index + offset)}
+          onRemove={() => onToggle(value)}
+        />
+      ))}
+
+      {unranked.length > 0 && ranked.length > 0 && <View style={styles.divider} />}
+
+      {unranked.map((option, index) => (
+        <TouchableOpacity
+          key={option.id || index}
+          disabled={isFull}
+          onPress={() => onToggle(getOptionValue(option))}
+          style={[styles.unrankedRow, isFull && styles.unrankedRowDisabled]}
+        >
+          <Ionicons name="add-circle-outline" size={20} color={isFull ? '#d1d5db' : '#2563eb'} />
+          <Text style={[styles.unrankedText, isFull && styles.unrankedTextDisabled]}>
+            {typeof option === 'string' ? option : option.text}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  instructions: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  rankedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#eff6ff',
+    borderColor: '#bfdbfe',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    marginBottom: 8,
+  },
+  dragHandle: {
+    paddingRight: 8,
+  },
+  rankBadge: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#2563eb',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  rankBadgeText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  rankedText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  rowButton: {
+    padding: 4,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#e5e7eb',
+    marginVertical: 8,
+  },
+  unrankedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+  },
+  unrankedRowDisabled: {
+    opacity: 0.6,
+  },
+  unrankedText: {
+    fontSize: 16,
+    color: '#374151',
+    marginLeft: 10,
+    flex: 1,
+  },
+  unrankedTextDisabled: {
+    color: '#9ca3af',
+  },
+});
@@ -17,6 +17,7 @@ import {
 } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
 import { Survey } from '../types';
+import { ConditionNode, describeConditions } from '../logic/conditions';
 
 const { width, height } = Dimensions.get('window');
 
@@ -31,23 +32,6 @@ export default function SurveyDetailsModal({ visible, survey, onClose }: SurveyD
 
   if (!survey) return null;
 
-  // Helper function to get operator description
-  const getOperatorDescription = (operator: string) => {
-    switch (operator) {
-      case 'equals': return 'is exactly';
-      case 'not_equals': return 'is not';
-      case 'contains': return 'contains';
-      case 'not_contains': return 'does not contain';
-      case 'greater_than': return 'is greater than';
-      case 'less_than': return 'is less than';
-      case 'is_empty': return 'is empty';
-      case 'is_not_empty': return 'is not empty';
-      case 'is_selected': return 'is selected';
-      case 'is_not_selected': return 'is not selected';
-      default: return operator;
-    }
-  };
-
   // Helper function to find question by ID
   const findQuestionById = (questionId: string) => {
     if (survey.sections) {
@@ -72,28 +56,11 @@ export default function SurveyDetailsModal({ visible, survey, onClose }: SurveyD
   };
 
   // Helper function to format conditional logic
-  const formatConditionalLogic = (conditions: any[]) => {
-    if (!conditions || conditions.length === 0) return '';
-    
-    return conditions.map((condition, index) => {
-      const question = findQuestionById(condition.questionId);
-      const operator = getOperatorDescription(condition.operator);
-      const value = condition.value;
-      
-      let conditionText = '';
-      if (question) {
-        conditionText = `"${question.text}" ${operator} "${value}"`;
-      } else {
-        conditionText = `Question ${condition.questionId} ${operator} "${value}"`;
-      }
-      
-      if (index > 0) {
-        const logic = condition.logic || 'AND';
-        conditionText = ` ${logic} ${conditionText}`;
-      }
-      
-      return conditionText;
-    }).join('');
+  const formatConditionalLogic = (conditions: ConditionNode[]) => {
+    return describeConditions(conditions, (questionId) => {
+      const question = findQuestionById(questionId);
+      return question ? `"${question.text}"` : `Question ${questionId}`;
+    });
   };
 
   // Helper function to format date
@@ -0,0 +1,44 @@
+import { AdminArea, formatAdminAddress, lookupAdminAreas, roundCoordinateKey } from '../adminAreas';
+
+const square = (west: number, south: number, size: number) =>
+  [[west, south], [west + size, south], [west + size, south + size], [west, south + size], [west, south]];
+
+const area = (level: AdminArea['level'], name: string, west: number, south: number, size: number): AdminArea =>
+  ({ level, name, geometry: { type: 'Polygon', coordinates: [square(west, south, size)] } });
+
+const areas: AdminArea[] = [
+  area('state', 'Delhi', 76.8, 28.4, 0.6),
+  area('district', 'New Delhi', 77.1, 28.5, 0.2),
+  area('district', 'Overlapping District', 77.1, 28.5, 0.2),
+  area('ac', 'Chandni Chowk', 77.2, 28.6, 0.05),
+  area('village', 'Khirki', 77.3, 28.8, 0.01),
+];
+
+describe('lookupAdminAreas', () => {
+  it('names the first containing area at each level', () => {
+    expect(lookupAdminAreas(areas, { latitude: 28.62, longitude: 77.22 })).toEqual({
+      state: 'Delhi',
+      district: 'New Delhi',
+      ac: 'Chandni Chowk',
+    });
+  });
+
+  it('leaves out levels without a containing area', () => {
+    expect(lookupAdminAreas(areas, { latitude: 28.45, longitude: 76.9 })).toEqual({ state: 'Delhi' });
+    expect(lookupAdminAreas(areas, { latitude: 20, longitude: 70 })).toEqual({});
+  });
+});
+
+describe('formatAdminAddress', () => {
+  it('lists the most specific area first', () => {
+    expect(formatAdminAddress({ state: 'Delhi', district: 'New Delhi', village: 'Khirki' })).toBe('Khirki, New Delhi, Delhi');
+    expect(formatAdminAddress({})).toBe('');
+  });
+});
+
+describe('roundCoordinateKey', () => {
+  it('rounds to three decimals by default', () => {
+    expect(roundCoordinateKey(28.61394, 77.20902)).toBe('28.614,77.209');
+    expect(roundCoordinateKey(28.61394, 77.20902, 1)).toBe('28.6,77.2');
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  Condition,
+  ConditionNode,
+  ConditionOperator,
+  describeConditions,
+  evaluateCondition,
+  evaluateConditions,
+  hasAnswer,
+  toDate,
+  toNumber,
+} from '../conditions';
+
+const when = (questionId: string, operator: ConditionOperator, value?: any, logic?: 'AND' | 'OR'): Condition =>
+  ({ questionId, operator, value, logic });
+
+describe('hasAnswer', () => {
+  it('treats null, undefined, blank strings and empty arrays as unanswered', () => {
+    expect(hasAnswer(null)).toBe(false);
+    expect(hasAnswer(undefined)).toBe(false);
+    expect(hasAnswer('   ')).toBe(false);
+    expect(hasAnswer([])).toBe(false);
+    expect(hasAnswer(NaN)).toBe(false);
+    expect(hasAnswer({ row1: '', row2: null })).toBe(false);
+  });
+
+  it('treats zero, negative numbers and partly answered matrices as answered', () => {
+    expect(hasAnswer(0)).toBe(true);
+    expect(hasAnswer(-3)).toBe(true);
+    expect(hasAnswer({ row1: '', row2: 'yes' })).toBe(true);
+  });
+});
+
+describe('coercion', () => {
+  it('reads numbers and numeric strings as numbers', () => {
+    expect(toNumber(5)).toBe(5);
+    expect(toNumber(' 42 ')).toBe(42);
+    expect(toNumber('4.5')).toBe(4.5);
+    expect(toNumber('')).toBeNull();
+    expect(toNumber('12abc')).toBeNull();
+    expect(toNumber(Infinity)).toBeNull();
+  });
+
+  it('only reads ISO style strings as dates', () => {
+    expect(toDate('2024-03-01')).toBe(new Date('2024-03-01').getTime());
+    expect(toDate('2024-03-01T10:00:00Z')).toBe(new Date('2024-03-01T10:00:00Z').getTime());
+    expect(toDate('20240301')).toBeNull();
+    expect(toDate('1709251200000')).toBeNull();
+    expect(toDate('01/03/2024')).toBeNull();
+  });
+
+  it('compares numeric strings numerically, not as text', () => {
+    expect(evaluateCondition(when('age', 'greater_than', '9'), { age: '10' })).toBe(true);
+    expect(evaluateCondition(when('age', 'equals', 18), { age: '18.0' })).toBe(true);
+    expect(evaluateCondition(when('age', 'less_than', '100'), { age: 25 })).toBe(true);
+  });
+
+  it('compares dates chronologically', () => {
+    expect(evaluateCondition(when('dob', 'before', '2000-01-01'), { dob: '1999-12-31' })).toBe(true);
+    expect(evaluateCondition(when('dob', 'after', '2000-01-01'), { dob: '1999-12-31' })).toBe(false);
+    expect(evaluateCondition(when('dob', 'equals', '2000-01-01'), { dob: '2000-01-01T00:00:00Z' })).toBe(true);
+  });
+
+  it('does not order values that are neither numbers nor dates', () => {
+    expect(evaluateCondition(when('name', 'greater_than', 'a'), { name: 'b' })).toBe(false);
+    expect(evaluateCondition(when('name', 'less_than', 'b'), { name: 'a' })).toBe(false);
+  });
+});
+
+describe('operators on answered questions', () => {
+  const responses = {
+    gender: 'Female',
+    age: 30,
+    brands: ['tata', 'maruti'],
+    comment: 'Roads are bad',
+    visited: '2024-06-15',
+  };
+  const cases: [ConditionOperator, string, any, boolean][] = [
+    ['equals', 'gender', 'female', true],
+    ['equals', 'gender', 'male', false],
+    ['equals', 'brands', 'tata', false],
+    ['not_equals', 'gender', 'male', true],
+    ['not_equals', 'gender', 'female', false],
+    ['contains', 'comment', 'ROADS', true],
+    ['contains', 'brands', 'mar', true],
+    ['contains', 'comment', 'water', false],
+    ['not_contains', 'comment', 'water', true],
+    ['not_contains', 'comment', 'bad', false],
+    ['greater_than', 'age', 29, true],
+    ['greater_than', 'age', 30, false],
+    ['less_than', 'age', 31, true],
+    ['less_than', 'age', 30, false],
+    ['greater_than_or_equal', 'age', 30, true],
+    ['greater_than_or_equal', 'age', 31, false],
+    ['less_than_or_equal', 'age', 30, true],
+    ['less_than_or_equal', 'age', 29, false],
+    ['before', 'visited', '2024-07-01', true],
+    ['before', 'visited', '2024-06-01', false],
+    ['after', 'visited', '2024-06-01', true],
+    ['after', 'visited', '2024-07-01', false],
+    ['is_empty', 'gender', undefined, false],
+    ['is_not_empty', 'gender', undefined, true],
+    ['is_selected', 'brands', 'maruti', true],
+    ['is_selected', 'brands', 'honda', false],
+    ['is_not_selected', 'brands', 'honda', true],
+    ['is_not_selected', 'brands', 'tata', false],
+  ];
+
+  it.each(cases)('%s on %s with %p is %p', (operator, questionId, value, expected) => {
+    expect(evaluateCondition(when(questionId, operator, value), responses)).toBe(expected);
+  });
+});
+
+describe('operators on unanswered questions', () => {
+  const cases: [ConditionOperator, boolean][] = [
+    ['equals', false],
+    ['not_equals', true],
+    ['contains', false],
+    ['not_contains', true],
+    ['greater_than', false],
+    ['less_than', false],
+    ['greater_than_or_equal', false],
+    ['less_than_or_equal', false],
+    ['before', false],
+    ['after', false],
+    ['is_empty', true],
+    ['is_not_empty', false],
+    ['is_selected', false],
+    ['is_not_selected', true],
+  ];
+
+  it.each(cases)('%s is %p when the question was skipped', (operator, expected) => {
+    expect(evaluateCondition(when('q5', operator, 'x'), {})).toBe(expected);
+    expect(evaluateCondition(when('q5', operator, 'x'), { q5: '' })).toBe(expected);
+    expect(evaluateCondition(when('q5', operator, 'x'), { q5: [] })).toBe(expected);
+  });
+
+  it('shows a question gated on "is not selected" when the gating question was skipped', () => {
+    expect(evaluateConditions([when('q5', 'is_not_selected', 'x')], {})).toBe(true);
+  });
+});
+
+describe('ranking conditions', () => {
+  const responses = { priorities: ['jobs', 'roads', 'water'] };
+
+  it('compares the rank given to an option', () => {
+    expect(evaluateCondition({ questionId: 'priorities', option: 'jobs', operator: 'equals', value: 1 }, responses)).toBe(true);
+    expect(evaluateCondition({ questionId: 'priorities', option: 'water', operator: 'less_than_or_equal', value: 2 }, responses)).toBe(false);
+  });
+
+  it('treats an unranked option as unanswered', () => {
+    expect(evaluateCondition({ questionId: 'priorities', option: 'health', operator: 'is_empty' }, responses)).toBe(true);
+    expect(evaluateCondition({ questionId: 'priorities', option: 'health', operator: 'equals', value: 1 }, responses)).toBe(false);
+  });
+});
+
+describe('evaluateConditions', () => {
+  const responses = { a: 'yes', b: 'no', c: 'yes' };
+  const isYes = (questionId: string, logic?: 'AND' | 'OR') => when(questionId, 'equals', 'yes', logic);
+
+  it('shows questions without conditions', () => {
+    expect(evaluateConditions(undefined, responses)).toBe(true);
+    expect(evaluateConditions([], responses)).toBe(true);
+  });
+
+  it('joins with AND when no logic is given', () => {
+    expect(evaluateConditions([isYes('a'), isYes('c')], responses)).toBe(true);
+    expect(evaluateConditions([isYes('a'), isYes('b')], responses)).toBe(false);
+  });
+
+  it('binds AND tighter than OR', () => {
+    // a OR b AND c  =>  a OR (b AND c)
+    expect(evaluateConditions([isYes('a'), isYes('b', 'OR'), isYes('c', 'AND')], responses)).toBe(true);
+    // b OR a AND b  =>  b OR (a AND b)
+    expect(evaluateConditions([isYes('b'), isYes('a', 'OR'), isYes('b', 'AND')], responses)).toBe(false);
+    // b AND a OR c  =>  (b AND a) OR c
+    expect(evaluateConditions([isYes('b'), isYes('a', 'AND'), isYes('c', 'OR')], responses)).toBe(true);
+  });
+
+  it('evaluates nested groups as parentheses', () => {
+    // (b OR a) AND c
+    const grouped: ConditionNode[] = [
+      { conditions: [isYes('b'), isYes('a', 'OR')] },
+      isYes('c', 'AND'),
+    ];
+    expect(evaluateConditions(grouped, responses)).toBe(true);
+
+    // (a OR c) AND b
+    const failing: ConditionNode[] = [
+      { conditions: [isYes('a'), isYes('c', 'OR')] },
+      isYes('b', 'AND'),
+    ];
+    expect(evaluateConditions(failing, responses)).toBe(false);
+  });
+
+  it('evaluates groups nested inside groups and negated groups', () => {
+    // a AND NOT (b OR (c AND a))
+    const nested: ConditionNode[] = [
+      isYes('a'),
+      {
+        logic: 'AND',
+        negate: true,
+        conditions: [isYes('b'), { logic: 'OR', conditions: [isYes('c'), isYes('a', 'AND')] }],
+      },
+    ];
+    expect(evaluateConditions(nested, responses)).toBe(false);
+
+    // NOT (b) AND c
+    expect(evaluateConditions([{ negate: true, conditions: [isYes('b')] }, isYes('c', 'AND')], responses)).toBe(true);
+  });
+});
+
+describe('describeConditions', () => {
+  it('writes groups in parentheses and leaves values off valueless operators', () => {
+    const conditions: ConditionNode[] = [
+      when('gender', 'equals', 'female'),
+      { logic: 'AND', conditions: [when('age', 'greater_than_or_equal', 18), when('voted', 'is_not_empty', undefined, 'OR')] },
+    ];
+    expect(describeConditions(conditions, id => `"${id}"`))
+      .toBe('"gender" is exactly "female" AND ("age" is at least "18" OR "voted" is not empty)');
+  });
+});
@@ -0,0 +1,62 @@
+import { computeCalculatedValues, evaluateExpression } from '../expressions';
+
+const evaluate = (expression: string, answers: Record<string, any> = {}) =>
+  evaluateExpression(expression, questionId => answers[questionId]);
+
+describe('+ in expressions', () => {
+  it('adds numbers and numeric answers stored as typed', () => {
+    expect(evaluate('1 + 2')).toBe(3);
+    expect(evaluate('{age} + 1', { age: '25' })).toBe(26);
+    expect(evaluate('{a} + {b}', { a: 2, b: '3' })).toBe(5);
+  });
+
+  it('gives null when an operand is missing', () => {
+    expect(evaluate('{missing} + 1')).toBeNull();
+    expect(evaluate('1 + {missing}')).toBeNull();
+    expect(evaluate('{age} + 1', { age: '' })).toBeNull();
+    expect(evaluate('"Mr " + {name}')).toBeNull();
+  });
+
+  it('joins text when one side really is text', () => {
+    expect(evaluate('"Ward " + {ward}', { ward: 5 })).toBe('Ward 5');
+    expect(evaluate('{first} + " " + {last}', { first: 'Asha', last: 'Rao' })).toBe('Asha Rao');
+  });
+
+  it('does not join values that are neither numbers nor text', () => {
+    expect(evaluate('true + 1')).toBeNull();
+  });
+});
+
+describe('other operators', () => {
+  it('gives null for arithmetic and ordering on missing or non-numeric values', () => {
+    expect(evaluate('{missing} * 2')).toBeNull();
+    expect(evaluate('{missing} < 25')).toBeNull();
+    expect(evaluate('25 >= {missing}')).toBeNull();
+    expect(evaluate('{name} > 3', { name: 'Asha' })).toBeNull();
+    expect(evaluate('10 / 0')).toBeNull();
+  });
+
+  it('gives null for a conditional on a null test unless it is guarded', () => {
+    expect(evaluate('{age} < 25 ? "young" : "old"')).toBeNull();
+    expect(evaluate('if({age} < 25, "young", "old")')).toBeNull();
+    expect(evaluate('isEmpty({age}) ? "unknown" : {age} < 25 ? "young" : "old"')).toBe('unknown');
+    expect(evaluate('{age} < 25 ? "young" : "old"', { age: '30' })).toBe('old');
+  });
+
+  it('compares numbers and text loosely', () => {
+    expect(evaluate('{age} == 25', { age: '25' })).toBe(true);
+    expect(evaluate('{gender} == "FEMALE"', { gender: 'female' })).toBe(true);
+  });
+});
+
+describe('computeCalculatedValues', () => {
+  it('derives an age band from a numeric answer stored as text', () => {
+    const questions = [
+      { id: 'age', type: 'numeric' },
+      { id: 'band', type: 'calculated', expression: '{age} < 25 ? "18-24" : {age} < 45 ? "25-44" : "45+"' },
+      { id: 'next_year', type: 'calculated', expression: '{age} + 1' },
+    ];
+    expect(computeCalculatedValues(questions, { age: '30' })).toEqual({ band: '25-44', next_year: 31 });
+    expect(computeCalculatedValues(questions, {})).toEqual({ band: null, next_year: null });
+  });
+});
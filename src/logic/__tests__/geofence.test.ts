@@ -0,0 +1,99 @@
+import {
+  ACBoundary,
+  distanceToBoundary,
+  findACForPoint,
+  findBoundaryForAC,
+  formatDistance,
+  haversineDistance,
+  isPointInGeometry,
+  verifyACSelection,
+} from '../geofence';
+
+// A 0.1 degree square with a 0.02 degree hole in the middle
+const square = (west: number, south: number, size: number) =>
+  [[west, south], [west + size, south], [west + size, south + size], [west, south + size], [west, south]];
+
+const central: ACBoundary = {
+  acName: 'Central',
+  acCode: 'AC-01',
+  geometry: { type: 'Polygon', coordinates: [square(77.0, 28.0, 0.1), square(77.04, 28.04, 0.02)] },
+};
+const islands: ACBoundary = {
+  acName: 'Islands',
+  geometry: { type: 'MultiPolygon', coordinates: [[square(78.0, 28.0, 0.1)], [square(79.0, 28.0, 0.1)]] },
+};
+
+describe('haversineDistance', () => {
+  it('measures great-circle distances in metres', () => {
+    expect(haversineDistance({ latitude: 28, longitude: 77 }, { latitude: 28, longitude: 77 })).toBe(0);
+    expect(haversineDistance({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 })).toBeCloseTo(111195, 0);
+    expect(haversineDistance({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 180 })).toBeCloseTo(Math.PI * 6371000, 0);
+  });
+});
+
+describe('isPointInGeometry', () => {
+  it('finds points inside the outline but not in a hole', () => {
+    expect(isPointInGeometry({ latitude: 28.02, longitude: 77.02 }, central.geometry)).toBe(true);
+    expect(isPointInGeometry({ latitude: 28.05, longitude: 77.05 }, central.geometry)).toBe(false);
+    expect(isPointInGeometry({ latitude: 28.2, longitude: 77.05 }, central.geometry)).toBe(false);
+  });
+
+  it('checks every polygon of a MultiPolygon', () => {
+    expect(isPointInGeometry({ latitude: 28.05, longitude: 78.05 }, islands.geometry)).toBe(true);
+    expect(isPointInGeometry({ latitude: 28.05, longitude: 79.05 }, islands.geometry)).toBe(true);
+    expect(isPointInGeometry({ latitude: 28.05, longitude: 78.5 }, islands.geometry)).toBe(false);
+  });
+});
+
+describe('distanceToBoundary', () => {
+  it('measures to the nearest edge from outside', () => {
+    // 0.01 degrees of latitude north of the top edge
+    expect(distanceToBoundary({ latitude: 28.11, longitude: 77.05 }, central)).toBeCloseTo(1112, -1);
+  });
+
+  it('counts the edges of holes', () => {
+    // In the hole, 0.01 degrees of longitude from its sides
+    const metres = 0.01 * 111195 * Math.cos((28.05 * Math.PI) / 180);
+    expect(distanceToBoundary({ latitude: 28.05, longitude: 77.05 }, central)).toBeCloseTo(metres, -1);
+  });
+});
+
+describe('AC lookup', () => {
+  it('finds boundaries by name, ignoring case and spaces, or by code', () => {
+    expect(findBoundaryForAC([central, islands], ' central ')).toBe(central);
+    expect(findBoundaryForAC([central, islands], 'AC-01')).toBe(central);
+    expect(findBoundaryForAC([central, islands], 'Elsewhere')).toBeNull();
+  });
+
+  it('finds the AC a position falls in', () => {
+    expect(findACForPoint([central, islands], { latitude: 28.05, longitude: 79.05 })).toBe(islands);
+    expect(findACForPoint([central, islands], { latitude: 30, longitude: 80 })).toBeNull();
+  });
+});
+
+describe('verifyACSelection', () => {
+  it('reports a position inside the selected AC', () => {
+    const result = verifyACSelection([central, islands], 'Central', { latitude: 28.02, longitude: 77.02, accuracy: 12 });
+    expect(result).toMatchObject({ status: 'inside', detectedAC: 'Central', accuracy: 12 });
+  });
+
+  it('reports the distance and the detected AC when outside', () => {
+    const result = verifyACSelection([central, islands], 'Central', { latitude: 28.05, longitude: 78.05 });
+    expect(result.status).toBe('outside');
+    expect(result.detectedAC).toBe('Islands');
+    expect(result.distanceToBoundary).toBeGreaterThan(90000);
+  });
+
+  it('is unknown without a position or a boundary for the selected AC', () => {
+    expect(verifyACSelection([central], 'Central', null)).toMatchObject({ status: 'unknown', distanceToBoundary: null });
+    expect(verifyACSelection([central], 'Elsewhere', { latitude: 28.02, longitude: 77.02 }))
+      .toMatchObject({ status: 'unknown', detectedAC: 'Central' });
+  });
+});
+
+describe('formatDistance', () => {
+  it('uses metres below a kilometre', () => {
+    expect(formatDistance(420.4)).toBe('420 m');
+    expect(formatDistance(1540)).toBe('1.5 km');
+  });
+});
@@ -0,0 +1,64 @@
+import { TrailPoint, TrailPointReason, appendTrailPoint, summarizeTrail } from '../locationTrail';
+
+const point = (reason: TrailPointReason, latitude: number, index: number): TrailPoint => ({
+  latitude,
+  longitude: 77.2,
+  accuracy: 10,
+  source: 'gps',
+  timestamp: new Date(Date.UTC(2026, 0, 1, 10, 0, index)).toISOString(),
+  reason,
+});
+
+const fillTrail = (reasons: TrailPointReason[]) =>
+  reasons.reduce<TrailPoint[]>((trail, reason, index) => appendTrailPoint(trail, point(reason, 28.6, index)), []);
+
+describe('appendTrailPoint', () => {
+  it('appends while there is room', () => {
+    const trail = fillTrail(['start', 'periodic', 'section']);
+    expect(trail.map(existing => existing.reason)).toEqual(['start', 'periodic', 'section']);
+  });
+
+  it('drops the oldest periodic sample first when full', () => {
+    const trail = fillTrail(['start', 'section', 'periodic', 'periodic', ...Array(196).fill('section'), 'completion']);
+    expect(trail).toHaveLength(200);
+    expect(trail[0].reason).toBe('start');
+    expect(trail.filter(existing => existing.reason === 'periodic')).toHaveLength(1);
+    expect(trail[trail.length - 1].reason).toBe('completion');
+  });
+
+  it('keeps the start fix when there is no periodic sample to drop', () => {
+    const trail = fillTrail(['start', ...Array(205).fill('section'), 'completion']);
+    expect(trail).toHaveLength(200);
+    expect(trail[0].reason).toBe('start');
+    expect(trail[1].timestamp).toBe(point('section', 28.6, 8).timestamp);
+    expect(trail[trail.length - 1].reason).toBe('completion');
+  });
+});
+
+describe('summarizeTrail', () => {
+  it('is empty for no points', () => {
+    expect(summarizeTrail([])).toEqual({
+      pointCount: 0,
+      startToEndDistance: null,
+      maxDistanceFromStart: null,
+      averageAccuracy: null,
+      startedAt: null,
+      endedAt: null,
+    });
+  });
+
+  it('measures from the start fix', () => {
+    const trail = [
+      point('start', 28.6, 0),
+      { ...point('section', 28.602, 1), accuracy: 30 },
+      point('completion', 28.601, 2),
+    ];
+    const summary = summarizeTrail(trail);
+    expect(summary.pointCount).toBe(3);
+    expect(summary.startToEndDistance).toBe(111);
+    expect(summary.maxDistanceFromStart).toBe(222);
+    expect(summary.averageAccuracy).toBe(17);
+    expect(summary.startedAt).toBe(trail[0].timestamp);
+    expect(summary.endedAt).toBe(trail[2].timestamp);
+  });
+});
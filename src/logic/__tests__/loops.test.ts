@@ -0,0 +1,81 @@
+import { expandLoopSection, getIterationKey, getLoopLabels, nestLoopResponses } from '../loops';
+
+describe('getLoopLabels', () => {
+  it('numbers the iterations of a count', () => {
+    expect(getLoopLabels({ sourceQuestionId: 'members' }, { members: 3 })).toEqual(['Member 1', 'Member 2', 'Member 3']);
+    expect(getLoopLabels({ sourceQuestionId: 'members', labelTemplate: 'Child {n}' }, { members: ' 2 ' }))
+      .toEqual(['Child 1', 'Child 2']);
+  });
+
+  it('uses names from a list or from text', () => {
+    expect(getLoopLabels({ sourceQuestionId: 'names' }, { names: ['Asha', ' Ravi '] })).toEqual(['Asha', 'Ravi']);
+    expect(getLoopLabels({ sourceQuestionId: 'names' }, { names: 'Asha, Ravi\nMeena,, ' })).toEqual(['Asha', 'Ravi', 'Meena']);
+  });
+
+  it('has no iterations without an answer and stops at the maximum', () => {
+    expect(getLoopLabels({ sourceQuestionId: 'members' }, {})).toEqual([]);
+    expect(getLoopLabels({ sourceQuestionId: 'members' }, { members: 50 })).toHaveLength(20);
+    expect(getLoopLabels({ sourceQuestionId: 'members', maxIterations: 2 }, { members: 5 })).toHaveLength(2);
+  });
+});
+
+const section = {
+  id: 'roster',
+  title: 'Household members',
+  loop: { sourceQuestionId: 'members' },
+  questions: [
+    { id: 'age', type: 'numeric' },
+    {
+      id: 'school',
+      type: 'single_choice',
+      conditions: [
+        { questionId: 'age', operator: 'less_than', value: 18 },
+        { questionId: 'consent', operator: 'equals', value: 'yes' },
+      ],
+    },
+  ],
+};
+
+describe('expandLoopSection', () => {
+  const questions = expandLoopSection(section, 2, ['Asha', 'Ravi']);
+
+  it('copies every question per iteration with its own response key', () => {
+    expect(questions.map(question => question.id)).toEqual([
+      getIterationKey('age', 1), getIterationKey('school', 1), getIterationKey('age', 2), getIterationKey('school', 2),
+    ]);
+    expect(questions[2]).toMatchObject({
+      baseQuestionId: 'age',
+      sectionIndex: 2,
+      questionIndex: 0,
+      loopIteration: { sectionId: 'roster', iteration: 2, total: 2, label: 'Ravi' },
+    });
+  });
+
+  it('points conditions on the same section at the same iteration', () => {
+    expect(questions[3].conditions.map((condition: any) => condition.questionId)).toEqual([getIterationKey('age', 2), 'consent']);
+  });
+});
+
+describe('nestLoopResponses', () => {
+  const questions = [{ id: 'consent' }, ...expandLoopSection(section, 1, ['Asha', 'Ravi'])];
+  const entry = (question: any, response: any) =>
+    ({ questionId: question.id, sectionIndex: 1, response, isSkipped: response === '' });
+
+  it('groups looped responses per iteration in place of the section', () => {
+    const flat = questions.map((question, index) => entry(question, index === 0 ? 'yes' : ''));
+    flat[1] = entry(questions[1], 34);
+
+    const nested = nestLoopResponses(flat, questions);
+    expect(nested).toHaveLength(2);
+    expect(nested[0].questionId).toBe('consent');
+    expect(nested[1]).toMatchObject({ questionId: 'roster', questionType: 'loop', loopSourceQuestionId: 'members', isSkipped: false });
+    expect(nested[1].iterations.map((iteration: any) => iteration.label)).toEqual(['Asha', 'Ravi']);
+    expect(nested[1].iterations[0].responses.map((response: any) => [response.questionId, response.response]))
+      .toEqual([['age', 34], ['school', '']]);
+  });
+
+  it('marks the section skipped when every iteration was skipped', () => {
+    const flat = questions.map((question, index) => entry(question, index === 0 ? 'yes' : ''));
+    expect(nestLoopResponses(flat, questions)[1].isSkipped).toBe(true);
+  });
+});
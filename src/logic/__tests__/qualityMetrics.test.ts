@@ -0,0 +1,32 @@
+import { createQualityMetrics, recordQuestionView, summarizeQualityMetrics } from '../qualityMetrics';
+import { getQualityFlags } from '../qualityFlags';
+
+const answers = { q1: 'yes', q2: 'no', q3: 'maybe' };
+const questions = [{ id: 'q1', type: 'text' }, { id: 'q2', type: 'text' }, { id: 'q3', type: 'text' }];
+
+// 1.5s on q1, 3s on q2, 6s on q3
+const answeredState = () => {
+  let state = createQualityMetrics();
+  state = recordQuestionView(state, 'q1', answers, 0);
+  state = recordQuestionView(state, 'q2', answers, 1500);
+  state = recordQuestionView(state, 'q3', answers, 4500);
+  return recordQuestionView(state, null, answers, 10500);
+};
+
+describe('summarizeQualityMetrics', () => {
+  it('counts answers under two seconds as rushed by default', () => {
+    const metrics = summarizeQualityMetrics(answeredState(), answers, undefined, 10500);
+    expect(metrics.rushedAnswerCount).toBe(1);
+    expect(metrics.dataQualityScore).toBe(87);
+  });
+
+  it('uses the same threshold as the speeding flags', () => {
+    const settings = { minSecondsPerQuestion: 5 };
+    const metrics = summarizeQualityMetrics(answeredState(), answers, settings.minSecondsPerQuestion, 10500);
+    const speeding = getQualityFlags(questions, answers, answeredState(), 10, settings, 10500)
+      .find(flag => flag.code === 'speeding_question');
+
+    expect(metrics.rushedAnswerCount).toBe(2);
+    expect(speeding?.questionIds).toEqual(['q1', 'q2']);
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  QuotaCell,
+  formatQuotaCell,
+  getCellQuestionIds,
+  getFullMatchedCells,
+  getMatchedCells,
+  isCellFull,
+  matchQuotaCell,
+} from '../quotas';
+
+const cell = (id: string, conditions: QuotaCell['conditions'], target: number, achieved: number): QuotaCell =>
+  ({ id, quotaId: 'gender_age', label: id, conditions, target, achieved });
+
+const youngWomen = cell('Female 18-24', [
+  { questionId: 'gender', operator: 'equals', value: 'female' },
+  { questionId: 'age', operator: 'greater_than_or_equal', value: 18 },
+  { questionId: 'age', operator: 'less_than_or_equal', value: 24 },
+], 10, 10);
+const olderWomen = cell('Female 25+', [
+  { questionId: 'gender', operator: 'equals', value: 'female' },
+  { questionId: 'age', operator: 'greater_than_or_equal', value: 25 },
+], 10, 4);
+const centralAC = cell('Central AC', [
+  { conditions: [
+    { questionId: 'ac-selection', operator: 'equals', value: 'Central' },
+    { questionId: 'ac-selection', operator: 'equals', value: 'Central East', logic: 'OR' },
+  ] },
+], 0, 30);
+
+describe('isCellFull', () => {
+  it('is full once achieved reaches a positive target', () => {
+    expect(isCellFull(youngWomen)).toBe(true);
+    expect(isCellFull(olderWomen)).toBe(false);
+    expect(isCellFull(centralAC)).toBe(false);
+  });
+});
+
+describe('getCellQuestionIds', () => {
+  it('collects questions from nested groups', () => {
+    expect(getCellQuestionIds(olderWomen.conditions)).toEqual(['gender', 'age']);
+    expect(getCellQuestionIds(centralAC.conditions)).toEqual(['ac-selection', 'ac-selection']);
+  });
+});
+
+describe('matchQuotaCell', () => {
+  it('is undetermined until every dimension is answered', () => {
+    expect(matchQuotaCell(youngWomen, { gender: 'female' })).toBe('undetermined');
+    expect(matchQuotaCell(youngWomen, { gender: 'female', age: '' })).toBe('undetermined');
+  });
+
+  it('places answered respondents in or out of the cell', () => {
+    expect(matchQuotaCell(youngWomen, { gender: 'female', age: '21' })).toBe('in');
+    expect(matchQuotaCell(youngWomen, { gender: 'female', age: 30 })).toBe('out');
+    expect(matchQuotaCell(youngWomen, { gender: 'male', age: 21 })).toBe('out');
+    expect(matchQuotaCell(centralAC, { 'ac-selection': 'Central East' })).toBe('in');
+  });
+});
+
+describe('matched cells', () => {
+  const cells = [youngWomen, olderWomen, centralAC];
+
+  it('lists the cells the respondent belongs to', () => {
+    expect(getMatchedCells(cells, { gender: 'female', age: 21, 'ac-selection': 'Central' })).toEqual([youngWomen, centralAC]);
+    expect(getMatchedCells(cells, { gender: 'female' })).toEqual([]);
+  });
+
+  it('lists only the full ones among them', () => {
+    expect(getFullMatchedCells(cells, { gender: 'female', age: 21, 'ac-selection': 'Central' })).toEqual([youngWomen]);
+    expect(getFullMatchedCells(cells, { gender: 'female', age: 40 })).toEqual([]);
+  });
+});
+
+describe('formatQuotaCell', () => {
+  it('shows progress against the target', () => {
+    expect(formatQuotaCell(olderWomen)).toBe('Female 25+ (4/10)');
+  });
+});
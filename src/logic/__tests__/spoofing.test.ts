@@ -0,0 +1,76 @@
+import { SpoofingCheckFix, assessFixes, checkFix } from '../spoofing';
+
+const fix = (overrides: Partial<SpoofingCheckFix> = {}): SpoofingCheckFix => ({
+  latitude: 28.6,
+  longitude: 77.2,
+  accuracy: 10,
+  timestamp: '2026-01-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const codes = (current: SpoofingCheckFix, previous?: SpoofingCheckFix) =>
+  checkFix(current, previous).map(signal => signal.code);
+
+describe('checkFix', () => {
+  it('raises nothing for an ordinary fix', () => {
+    expect(codes(fix())).toEqual([]);
+  });
+
+  it('flags fixes the device reports as mocked', () => {
+    expect(codes(fix({ mocked: true }))).toEqual(['mock_provider']);
+  });
+
+  it('flags missing and impossibly precise accuracy', () => {
+    expect(codes(fix({ accuracy: 0 }))).toEqual(['impossible_accuracy']);
+    expect(codes(fix({ accuracy: 0.5 }))).toEqual(['impossible_accuracy']);
+    expect(codes(fix({ accuracy: 1 }))).toEqual([]);
+  });
+
+  it('flags fix times far from the device clock', () => {
+    expect(codes(fix({ fixTimestamp: '2026-01-01T10:04:00.000Z' }))).toEqual([]);
+    expect(codes(fix({ fixTimestamp: '2026-01-01T09:50:00.000Z' }))).toEqual(['clock_mismatch']);
+  });
+
+  it('flags movement faster than a vehicle could manage', () => {
+    const previous = fix();
+    // About 11 km north, ten seconds later
+    const jump = fix({ latitude: 28.7, timestamp: '2026-01-01T10:00:10.000Z' });
+    expect(codes(jump, previous)).toEqual(['implausible_jump']);
+
+    const drive = fix({ latitude: 28.7, timestamp: '2026-01-01T10:10:00.000Z' });
+    expect(codes(drive, previous)).toEqual([]);
+  });
+
+  it('allows for the accuracy of both fixes', () => {
+    const previous = fix({ accuracy: 300 });
+    const nearby = fix({ latitude: 28.603, timestamp: '2026-01-01T10:00:01.000Z', accuracy: 100 });
+    expect(codes(nearby, previous)).toEqual([]);
+  });
+
+  it('flags any movement between fixes with the same timestamp', () => {
+    expect(codes(fix({ latitude: 28.61 }), fix())).toEqual(['implausible_jump']);
+  });
+});
+
+describe('assessFixes', () => {
+  it('is zero risk for a plausible sequence', () => {
+    expect(assessFixes([fix(), fix({ timestamp: '2026-01-01T10:02:00.000Z' })]))
+      .toEqual({ riskScore: 0, isMocked: false, signals: [] });
+  });
+
+  it('adds each kind of signal once, however often it is seen', () => {
+    const assessment = assessFixes([
+      fix({ accuracy: 0 }),
+      fix({ accuracy: 0, timestamp: '2026-01-01T10:01:00.000Z' }),
+      fix({ fixTimestamp: '2026-01-01T11:00:00.000Z', timestamp: '2026-01-01T10:02:00.000Z' }),
+    ]);
+    expect(assessment.riskScore).toBe(50);
+    expect(assessment.signals).toHaveLength(3);
+  });
+
+  it('caps the score at 100 and reports mocked fixes', () => {
+    const assessment = assessFixes([fix({ mocked: true, accuracy: 0 })]);
+    expect(assessment.riskScore).toBe(100);
+    expect(assessment.isMocked).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { toSubmittedAnswer, toSubmittedAnswers, validateAnswer, validateAnswers } from '../validation';
+
+const numeric = (validation?: any) => ({ id: 'q', type: 'numeric', validation });
+const text = (validation?: any) => ({ id: 'q', type: 'text', validation });
+
+describe('validateAnswer on numeric questions', () => {
+  it('accepts numbers as typed, including leading zeros and a trailing point', () => {
+    expect(validateAnswer(numeric(), '012345')).toBeNull();
+    expect(validateAnswer(numeric(), '1.')).toBeNull();
+    expect(validateAnswer(numeric(), '-4.5')).toBeNull();
+    expect(validateAnswer(numeric(), 30)).toBeNull();
+  });
+
+  it('rejects text that is not a number even without rules', () => {
+    expect(validateAnswer(numeric(), '12abc')).toBe('Please enter a valid number');
+  });
+
+  it('checks the range and whole numbers against the parsed value', () => {
+    const age = numeric({ min: 18, max: 99, integer: true });
+    expect(validateAnswer(age, '17')).toBe('Please enter a value of at least 18');
+    expect(validateAnswer(age, '100')).toBe('Please enter a value of at most 99');
+    expect(validateAnswer(age, '25.5')).toBe('Please enter a whole number');
+    expect(validateAnswer(age, '025')).toBeNull();
+  });
+
+  it('matches patterns against what was typed', () => {
+    const pincode = numeric({ pattern: '\\d{6}' });
+    expect(validateAnswer(pincode, '012345')).toBeNull();
+    expect(validateAnswer(pincode, '12345')).toBe('Please enter the answer in the expected format');
+  });
+
+  it('ignores unanswered questions', () => {
+    expect(validateAnswer(numeric({ min: 1 }), '')).toBeNull();
+    expect(validateAnswer(numeric({ min: 1 }), undefined)).toBeNull();
+  });
+});
+
+describe('validateAnswer on text questions', () => {
+  it('checks lengths and uses custom messages', () => {
+    const name = text({ minLength: 3, messages: { minLength: 'Too short' } });
+    expect(validateAnswer(name, 'ab')).toBe('Too short');
+    expect(validateAnswer(name, 'abc')).toBeNull();
+    expect(validateAnswer(text({ maxLength: 2, message: 'Invalid' }), 'abc')).toBe('Invalid');
+  });
+
+  it('anchors patterns to the whole answer', () => {
+    const mobile = text({ pattern: '[6-9]\\d{9}' });
+    expect(validateAnswer(mobile, '9876543210')).toBeNull();
+    expect(validateAnswer(mobile, '09876543210')).not.toBeNull();
+  });
+
+  it('accepts anything without rules', () => {
+    expect(validateAnswer(text(), 'anything')).toBeNull();
+  });
+});
+
+describe('validateAnswers', () => {
+  it('lists every invalid answer in question order', () => {
+    const questions = [
+      { id: 'a', type: 'numeric' },
+      { id: 'b', type: 'text' },
+      { id: 'c', type: 'numeric', validation: { max: 5 } },
+    ];
+    const errors = validateAnswers(questions, { a: 'x', b: 'fine', c: '9' });
+    expect(errors.map(error => error.question.id)).toEqual(['a', 'c']);
+  });
+});
+
+describe('toSubmittedAnswers', () => {
+  it('sends number answers as numbers and leaves the rest as typed', () => {
+    const questions = [
+      { id: 'age', type: 'numeric' },
+      { id: 'count', type: 'number' },
+      { id: 'pincode', type: 'text' },
+      { id: 'skipped', type: 'numeric' },
+    ];
+    expect(toSubmittedAnswers(questions, { age: '025', count: '1.', pincode: '012345', skipped: '' }))
+      .toEqual({ age: 25, count: 1, pincode: '012345', skipped: '' });
+  });
+
+  it('leaves answers that are not numbers for validation to catch', () => {
+    expect(toSubmittedAnswer({ id: 'q', type: 'numeric' }, '12abc')).toBe('12abc');
+  });
+});
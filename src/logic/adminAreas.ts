@@ -0,0 +1,39 @@
+// Offline reverse geocoding against administrative boundaries: which state,
+// district, AC and village a position falls in. No coordinates leave the
+// device. Areas use the same GeoJSON geometry as AC boundaries.
+
+import { BoundaryGeometry, GeoPoint, isPointInGeometry } from './geofence';
+
+export type AdminLevel = 'state' | 'district' | 'ac' | 'village';
+
+export interface AdminArea {
+  level: AdminLevel;
+  name: string;
+  code?: string;
+  geometry: BoundaryGeometry;
+}
+
+export type AdminLookup = Partial<Record<AdminLevel, string>>;
+
+// Most specific first, for the formatted address
+const ADDRESS_ORDER: AdminLevel[] = ['village', 'ac', 'district', 'state'];
+
+// Name of the area containing the point, per level. Levels without a
+// containing area are left out.
+export const lookupAdminAreas = (areas: AdminArea[], point: GeoPoint): AdminLookup => {
+  const lookup: AdminLookup = {};
+  areas.forEach(area => {
+    if (!lookup[area.level] && isPointInGeometry(point, area.geometry)) {
+      lookup[area.level] = area.name;
+    }
+  });
+  return lookup;
+};
+
+export const formatAdminAddress = (lookup: AdminLookup) =>
+  ADDRESS_ORDER.map(level => lookup[level]).filter(Boolean).join(', ');
+
+// Cache key for a position. Three decimals is roughly 110 m, close enough
+// for an address and coarse enough not to store exact respondent positions.
+export const roundCoordinateKey = (latitude: number, longitude: number, decimals: number = 3) =>
+  `${latitude.toFixed(decimals)},${longitude.toFixed(decimals)}`;
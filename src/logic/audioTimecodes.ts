@@ -0,0 +1,52 @@
+// Links the CAPI recording to the questionnaire: for every question, where in
+// the recording it was first put on screen and where it was last answered.
+// A resumed interview has one recording file per run, so a position is the
+// file (segment) index plus the offset into that file.
+
+export interface RecordingPosition {
+  segment: number; // Index into the interview's audio files
+  offset: number; // ms into that file
+}
+
+export interface QuestionTimecode {
+  questionId: string;
+  displayedAt: RecordingPosition;
+  answeredAt: RecordingPosition | null;
+}
+
+export type QuestionTimecodes = Record<string, QuestionTimecode>;
+
+export const recordQuestionDisplayed = (
+  timecodes: QuestionTimecodes,
+  questionId: string,
+  position: RecordingPosition
+): QuestionTimecodes => {
+  // Revisits keep the first time the question was asked
+  if (timecodes[questionId]) return timecodes;
+  return { ...timecodes, [questionId]: { questionId, displayedAt: position, answeredAt: null } };
+};
+
+export const recordQuestionAnswered = (
+  timecodes: QuestionTimecodes,
+  questionId: string,
+  position: RecordingPosition
+): QuestionTimecodes => {
+  const existing = timecodes[questionId] || { questionId, displayedAt: position, answeredAt: null };
+  return { ...timecodes, [questionId]: { ...existing, answeredAt: position } };
+};
+
+// The question-to-timecode index submitted with the interview, in
+// questionnaire order
+export const buildTimecodeIndex = (timecodes: QuestionTimecodes, questions: any[]): QuestionTimecode[] =>
+  questions.map(question => timecodes[question.id]).filter((timecode): timecode is QuestionTimecode => !!timecode);
+
+export const findTimecode = (index: QuestionTimecode[] | undefined, questionId: string) =>
+  (index || []).find(timecode => timecode.questionId === questionId) || null;
+
+// "m:ss" for a position in the recording
+export const formatTimecode = (offset: number) => {
+  const totalSeconds = Math.floor(offset / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,269 @@
+// Skip-logic engine shared by the interview runner and the questionnaire preview.
+//
+// Conditions are stored on a question as a flat list where every entry after the
+// first carries the `logic` that joins it to the previous entry. An entry can
+// also be a group with its own nested list, which is how authors express
+// parentheses. AND binds tighter than OR, so `A OR B AND C` reads as
+// `A OR (B AND C)`.
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'greater_than_or_equal'
+  | 'less_than_or_equal'
+  | 'before'
+  | 'after'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'is_selected'
+  | 'is_not_selected';
+
+export type ConditionLogic = 'AND' | 'OR';
+
+export interface Condition {
+  questionId: string;
+  operator: ConditionOperator;
+  value?: any;
+  logic?: ConditionLogic;
+  // Ranking questions: compare the rank this option was given instead of the
+  // whole answer, e.g. { option: 'jobs', operator: 'equals', value: 1 }
+  option?: string;
+}
+
+export interface ConditionGroup {
+  conditions: ConditionNode[];
+  logic?: ConditionLogic;
+  negate?: boolean;
+}
+
+export type ConditionNode = Condition | ConditionGroup;
+
+export type ResponseMap = Record<string, any>;
+
+const OPERATOR_DESCRIPTIONS: Record<ConditionOperator, string> = {
+  equals: 'is exactly',
+  not_equals: 'is not',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  greater_than_or_equal: 'is at least',
+  less_than_or_equal: 'is at most',
+  before: 'is before',
+  after: 'is after',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+  is_selected: 'is selected',
+  is_not_selected: 'is not selected',
+};
+
+const VALUELESS_OPERATORS: ConditionOperator[] = ['is_empty', 'is_not_empty'];
+
+// Operators that are true when there is no answer at all
+const NEGATED_OPERATORS: ConditionOperator[] = ['is_empty', 'not_equals', 'not_contains', 'is_not_selected'];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const isConditionGroup = (node: ConditionNode): node is ConditionGroup =>
+  Array.isArray((node as ConditionGroup).conditions);
+
+export const describeOperator = (operator: string): string =>
+  OPERATOR_DESCRIPTIONS[operator as ConditionOperator] || operator;
+
+export const hasAnswer = (response: any): boolean => {
+  if (response === null || response === undefined) return false;
+  if (typeof response === 'string') return response.trim().length > 0;
+  if (Array.isArray(response)) return response.length > 0;
+  if (typeof response === 'number') return !isNaN(response) && isFinite(response); // Allow 0 and negative numbers
+  if (typeof response === 'object' && !(response instanceof Date)) {
+    return Object.values(response).some(hasAnswer); // Matrix answers keyed by row
+  }
+  return true;
+};
+
+// Numbers and numeric strings become numbers; anything else is not numeric
+export const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value.trim());
+  return isFinite(parsed) ? parsed : null;
+};
+
+// Only ISO style dates (YYYY-MM-DD, optionally with a time) count as dates, so
+// that plain numbers are never mistaken for timestamps
+export const toDate = (value: any): number | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.getTime();
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value.trim())) return null;
+  const time = new Date(value.trim()).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const normalizeText = (value: any) => String(value).toLowerCase().trim();
+
+// 1-based position of an option in a ranking answer, or null when unranked
+const getRankOf = (response: any, option: string): number | null => {
+  if (!Array.isArray(response)) return null;
+  const index = response.findIndex(item => normalizeText(item) === normalizeText(option));
+  return index === -1 ? null : index + 1;
+};
+
+const valuesEqual = (response: any, expected: any): boolean => {
+  const responseNumber = toNumber(response);
+  const expectedNumber = toNumber(expected);
+  if (responseNumber !== null && expectedNumber !== null) {
+    return responseNumber === expectedNumber;
+  }
+
+  const responseDate = toDate(response);
+  const expectedDate = toDate(expected);
+  if (responseDate !== null && expectedDate !== null) {
+    return responseDate === expectedDate;
+  }
+
+  return normalizeText(response) === normalizeText(expected);
+};
+
+// Compare numerically when both sides are numbers, chronologically when both
+// are dates; returns null when the values cannot be ordered
+const compareValues = (response: any, expected: any): number | null => {
+  const responseNumber = toNumber(response);
+  const expectedNumber = toNumber(expected);
+  if (responseNumber !== null && expectedNumber !== null) {
+    return responseNumber - expectedNumber;
+  }
+
+  const responseDate = toDate(response);
+  const expectedDate = toDate(expected);
+  if (responseDate !== null && expectedDate !== null) {
+    return responseDate - expectedDate;
+  }
+
+  return null;
+};
+
+const isSelected = (response: any, expected: any): boolean => {
+  if (Array.isArray(response)) {
+    return response.some(item => valuesEqual(item, expected));
+  }
+  return valuesEqual(response, expected);
+};
+
+const containsText = (response: any, expected: any): boolean => {
+  const needle = normalizeText(expected ?? '');
+  if (Array.isArray(response)) {
+    return response.some(item => normalizeText(item).includes(needle));
+  }
+  return normalizeText(response).includes(needle);
+};
+
+export const evaluateCondition = (condition: Condition, responses: ResponseMap): boolean => {
+  const response = condition.option !== undefined
+    ? getRankOf(responses[condition.questionId], condition.option)
+    : responses[condition.questionId];
+
+  // An unanswered (or skipped) question, or an unranked option, has no value to
+  // match: "is empty" and the negated operators hold, everything else fails
+  if (!hasAnswer(response)) {
+    return NEGATED_OPERATORS.includes(condition.operator);
+  }
+
+  const { value } = condition;
+  switch (condition.operator) {
+    case 'equals':
+      return Array.isArray(response)
+        ? response.length === 1 && valuesEqual(response[0], value)
+        : valuesEqual(response, value);
+    case 'not_equals':
+      return Array.isArray(response)
+        ? !(response.length === 1 && valuesEqual(response[0], value))
+        : !valuesEqual(response, value);
+    case 'contains':
+      return containsText(response, value);
+    case 'not_contains':
+      return !containsText(response, value);
+    case 'greater_than':
+    case 'after': {
+      const comparison = compareValues(response, value);
+      return comparison !== null && comparison > 0;
+    }
+    case 'less_than':
+    case 'before': {
+      const comparison = compareValues(response, value);
+      return comparison !== null && comparison < 0;
+    }
+    case 'greater_than_or_equal': {
+      const comparison = compareValues(response, value);
+      return comparison !== null && comparison >= 0;
+    }
+    case 'less_than_or_equal': {
+      const comparison = compareValues(response, value);
+      return comparison !== null && comparison <= 0;
+    }
+    case 'is_empty':
+      return false;
+    case 'is_not_empty':
+      return true;
+    case 'is_selected':
+      return isSelected(response, value);
+    case 'is_not_selected':
+      return !isSelected(response, value);
+    default:
+      return false;
+  }
+};
+
+const evaluateNode = (node: ConditionNode, responses: ResponseMap): boolean => {
+  if (isConditionGroup(node)) {
+    const result = evaluateConditions(node.conditions, responses);
+    return node.negate ? !result : result;
+  }
+  return evaluateCondition(node, responses);
+};
+
+// True when the question should be shown. No conditions means always shown.
+export const evaluateConditions = (conditions: ConditionNode[] | undefined | null, responses: ResponseMap): boolean => {
+  if (!conditions || conditions.length === 0) return true;
+
+  // Split into OR-separated terms; each term is an AND chain
+  let anyTermTrue = false;
+  let currentTerm = true;
+  conditions.forEach((node, index) => {
+    if (index > 0 && (node.logic || 'AND') === 'OR') {
+      anyTermTrue = anyTermTrue || currentTerm;
+      currentTerm = true;
+    }
+    currentTerm = currentTerm && evaluateNode(node, responses);
+  });
+
+  return anyTermTrue || currentTerm;
+};
+
+// Human readable form used by the questionnaire preview, e.g.
+// `"Gender" is exactly "female" AND ("Age" is at least "18" OR "Voted" is selected "yes")`
+export const describeConditions = (
+  conditions: ConditionNode[] | undefined | null,
+  getQuestionLabel: (questionId: string) => string
+): string => {
+  if (!conditions || conditions.length === 0) return '';
+
+  return conditions.map((node, index) => {
+    let text: string;
+    if (isConditionGroup(node)) {
+      text = `(${describeConditions(node.conditions, getQuestionLabel)})`;
+      if (node.negate) text = `NOT ${text}`;
+    } else {
+      const operator = describeOperator(node.operator);
+      const subject = node.option !== undefined
+        ? `rank of "${node.option}" in ${getQuestionLabel(node.questionId)}`
+        : getQuestionLabel(node.questionId);
+      text = VALUELESS_OPERATORS.includes(node.operator)
+        ? `${subject} ${operator}`
+        : `${subject} ${operator} "${node.value}"`;
+    }
+    return index > 0 ? ` ${node.logic || 'AND'} ${text}` : text;
+  }).join('');
+};
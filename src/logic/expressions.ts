@@ -0,0 +1,310 @@
+// Expression language for calculated (hidden) questions. Expressions are
+// parsed by hand and never passed to eval, so a survey cannot run code on the
+// device.
+//
+//   {fixed_respondent_age} < 25 ? "18-24" : {fixed_respondent_age} < 45 ? "25-44" : "45+"
+//   {vote_2019} != {vote_2024} && !isEmpty({vote_2024})
+//
+// Answers are referenced as {questionId}. Supported: numbers, "strings",
+// true/false/null, + - * / %, comparisons, && || !, ?: and the functions
+// listed in FUNCTIONS. Comparisons and arithmetic use the same number/text
+// coercion as skip conditions, so "25" == 25 and "25" + 1 is 26. + joins text
+// when one side is not a number. Arithmetic and ordering with a missing
+// operand give null, and so does ?: (or if()) on a null test, so an unanswered
+// question never falls through to a concrete value.
+
+import { hasAnswer, toNumber } from './conditions';
+import { getIterationKey } from './loops';
+
+type Node =
+  | { kind: 'literal'; value: any }
+  | { kind: 'reference'; questionId: string }
+  | { kind: 'unary'; operator: '!' | '-'; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; consequent: Node; alternate: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'reference'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string };
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ','];
+
+// Binary operator precedence, loosest first
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  if: (test, whenTrue, whenFalse) => (test === null ? null : isTruthy(test) ? whenTrue : whenFalse),
+  isEmpty: value => !hasAnswer(value),
+  contains: (list, value) => Array.isArray(list)
+    ? list.some(item => looselyEqual(item, value))
+    : String(list ?? '').toLowerCase().includes(String(value ?? '').toLowerCase()),
+  count: value => (Array.isArray(value) ? value.length : hasAnswer(value) ? 1 : 0),
+  number: value => toNumber(value),
+  round: (value, digits = 0) => {
+    const number = toNumber(value);
+    if (number === null) return null;
+    const factor = Math.pow(10, digits);
+    return Math.round(number * factor) / factor;
+  },
+  min: (...values) => {
+    const numbers = numbersIn(values);
+    return numbers.length > 0 ? Math.min(...numbers) : null;
+  },
+  max: (...values) => {
+    const numbers = numbersIn(values);
+    return numbers.length > 0 ? Math.max(...numbers) : null;
+  },
+  coalesce: (...values) => values.find(hasAnswer) ?? null,
+};
+
+const numbersIn = (values: any[]) => values.map(toNumber).filter((value): value is number => value !== null);
+
+const isTruthy = (value: any) => (Array.isArray(value) ? value.length > 0 : !!value);
+
+const looselyEqual = (left: any, right: any) => {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber === rightNumber;
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left ?? null) === (right ?? null);
+  }
+  return String(left).toLowerCase().trim() === String(right).toLowerCase().trim();
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(source[index + 1] || ''))) {
+      const match = source.slice(index).match(/^\d*\.?\d+/) as RegExpMatchArray;
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      index += match[0].length;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) throw new ExpressionError('Unterminated string');
+      tokens.push({ type: 'string', value: source.slice(index + 1, end) });
+      index = end + 1;
+    } else if (char === '{') {
+      const end = source.indexOf('}', index);
+      if (end === -1) throw new ExpressionError('Unterminated question reference');
+      tokens.push({ type: 'reference', value: source.slice(index + 1, end).trim() });
+      index = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(index).match(/^[A-Za-z_]\w*/) as RegExpMatchArray;
+      tokens.push({ type: 'identifier', value: match[0] });
+      index += match[0].length;
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, index));
+      if (!operator) throw new ExpressionError(`Unexpected character "${char}"`);
+      tokens.push({ type: 'operator', value: operator });
+      index += operator.length;
+    }
+  }
+
+  return tokens;
+};
+
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (value: string) => peek()?.type === 'operator' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new ExpressionError(`Expected "${value}"`);
+    position++;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[position++];
+    if (!token) throw new ExpressionError('Unexpected end of expression');
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'reference':
+        return { kind: 'reference', questionId: token.value };
+      case 'identifier':
+        if (token.value === 'true') return { kind: 'literal', value: true };
+        if (token.value === 'false') return { kind: 'literal', value: false };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (!FUNCTIONS[token.value]) throw new ExpressionError(`Unknown function "${token.value}"`);
+        expect('(');
+        const args: Node[] = [];
+        while (!isOperator(')')) {
+          args.push(parseConditional());
+          if (!isOperator(')')) expect(',');
+        }
+        expect(')');
+        return { kind: 'call', name: token.value, args };
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseConditional();
+          expect(')');
+          return inner;
+        }
+        if (token.value === '!' || token.value === '-') {
+          return { kind: 'unary', operator: token.value, operand: parsePrimary() };
+        }
+    }
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  };
+
+  const parseBinary = (minPrecedence: number): Node => {
+    let left = parsePrimary();
+    while (peek()?.type === 'operator' && (PRECEDENCE[peek().value] || 0) >= minPrecedence) {
+      const operator = tokens[position++].value as string;
+      const right = parseBinary(PRECEDENCE[operator] + 1);
+      left = { kind: 'binary', operator, left, right };
+    }
+    return left;
+  };
+
+  const parseConditional = (): Node => {
+    const test = parseBinary(1);
+    if (!isOperator('?')) return test;
+    position++;
+    const consequent = parseConditional();
+    expect(':');
+    return { kind: 'conditional', test, consequent, alternate: parseConditional() };
+  };
+
+  const root = parseConditional();
+  if (position < tokens.length) throw new ExpressionError(`Unexpected "${peek().value}"`);
+  return root;
+};
+
+const evaluateNode = (node: Node, resolve: (questionId: string) => any): any => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'reference': {
+      // An unanswered question, or one whose answer was cleared, is null
+      const value = resolve(node.questionId);
+      return value === undefined || (typeof value === 'string' && value.trim() === '') ? null : value;
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, resolve);
+      if (node.operator === '!') return !isTruthy(operand);
+      const number = toNumber(operand);
+      return number === null ? null : -number;
+    }
+    case 'conditional': {
+      const test = evaluateNode(node.test, resolve);
+      if (test === null) return null;
+      return isTruthy(test)
+        ? evaluateNode(node.consequent, resolve)
+        : evaluateNode(node.alternate, resolve);
+    }
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, resolve)));
+    case 'binary': {
+      if (node.operator === '&&') {
+        return isTruthy(evaluateNode(node.left, resolve)) && isTruthy(evaluateNode(node.right, resolve));
+      }
+      if (node.operator === '||') {
+        return isTruthy(evaluateNode(node.left, resolve)) || isTruthy(evaluateNode(node.right, resolve));
+      }
+
+      const left = evaluateNode(node.left, resolve);
+      const right = evaluateNode(node.right, resolve);
+      if (node.operator === '==') return looselyEqual(left, right);
+      if (node.operator === '!=') return !looselyEqual(left, right);
+
+      const leftNumber = toNumber(left);
+      const rightNumber = toNumber(right);
+      // Text concatenation, but only of two present values where one really is
+      // text; numeric answers stored as typed still add up
+      if (node.operator === '+' && left !== null && right !== null &&
+          (leftNumber === null || rightNumber === null) &&
+          (typeof left === 'string' || typeof right === 'string')) {
+        return `${left}${right}`;
+      }
+      // Arithmetic and ordering on a missing or non-numeric value gives null
+      if (leftNumber === null || rightNumber === null) {
+        return null;
+      }
+
+      switch (node.operator) {
+        case '+': return leftNumber + rightNumber;
+        case '-': return leftNumber - rightNumber;
+        case '*': return leftNumber * rightNumber;
+        case '/': return rightNumber === 0 ? null : leftNumber / rightNumber;
+        case '%': return rightNumber === 0 ? null : leftNumber % rightNumber;
+        case '<': return leftNumber < rightNumber;
+        case '<=': return leftNumber <= rightNumber;
+        case '>': return leftNumber > rightNumber;
+        case '>=': return leftNumber >= rightNumber;
+      }
+      return null;
+    }
+  }
+};
+
+const parsedExpressions = new Map<string, Node>();
+
+// Evaluate an expression against answers. Throws ExpressionError when the
+// expression itself is malformed.
+export const evaluateExpression = (expression: string, resolve: (questionId: string) => any): any => {
+  let root = parsedExpressions.get(expression);
+  if (!root) {
+    root = parse(expression);
+    parsedExpressions.set(expression, root);
+  }
+  return evaluateNode(root, resolve);
+};
+
+// Values of every calculated question, keyed by question id. Questions are
+// evaluated in order, so a calculation can use the ones before it. Inside a
+// loop section a reference prefers the answer from the same iteration. A
+// malformed expression is logged and yields null rather than breaking the
+// interview.
+export const computeCalculatedValues = (questions: any[], responses: Record<string, any>): Record<string, any> => {
+  const values: Record<string, any> = {};
+
+  questions.forEach(question => {
+    if (question.type !== 'calculated' || !question.expression) return;
+
+    const resolve = (questionId: string) => {
+      const answers = { ...responses, ...values };
+      if (question.loopIteration) {
+        const iterationKey = getIterationKey(questionId, question.loopIteration.iteration);
+        if (iterationKey in answers) return answers[iterationKey];
+      }
+      return answers[questionId];
+    };
+
+    try {
+      values[question.id] = evaluateExpression(question.expression, resolve);
+    } catch (error: any) {
+      console.warn(`Calculated question ${question.id} has an invalid expression:`, error.message);
+      values[question.id] = null;
+    }
+  });
+
+  return values;
+};
@@ -0,0 +1,139 @@
+// Checks the interviewer's GPS position against Assembly Constituency (AC)
+// boundaries. Boundaries use GeoJSON geometry: Polygon or MultiPolygon, with
+// positions as [longitude, latitude] and the first ring of each polygon as its
+// outline and any further rings as holes.
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+type Position = number[]; // [longitude, latitude]
+type Ring = Position[];
+
+export type BoundaryGeometry =
+  | { type: 'Polygon'; coordinates: Ring[] }
+  | { type: 'MultiPolygon'; coordinates: Ring[][] };
+
+export interface ACBoundary {
+  acName: string;
+  acCode?: string;
+  geometry: BoundaryGeometry;
+}
+
+export type ACVerificationStatus = 'inside' | 'outside' | 'unknown';
+
+export interface ACVerification {
+  status: ACVerificationStatus;
+  selectedAC: string | null;
+  detectedAC: string | null; // The AC the position falls in, if any
+  distanceToBoundary: number | null; // Metres from the selected AC's boundary
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  checkedAt: string;
+}
+
+export const EARTH_RADIUS_M = 6371000;
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in metres
+export const haversineDistance = (a: GeoPoint, b: GeoPoint) => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const getPolygons = (geometry: BoundaryGeometry): Ring[][] =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+// Ray casting: count how many ring edges a ray from the point crosses
+const isPointInRing = (point: GeoPoint, ring: Ring) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = (yi > point.latitude) !== (yj > point.latitude) &&
+      point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+export const isPointInGeometry = (point: GeoPoint, geometry: BoundaryGeometry) =>
+  getPolygons(geometry).some(([outline, ...holes]) =>
+    !!outline && isPointInRing(point, outline) && !holes.some(hole => isPointInRing(point, hole))
+  );
+
+export const isPointInBoundary = (point: GeoPoint, boundary: ACBoundary) =>
+  isPointInGeometry(point, boundary.geometry);
+
+// Distance in metres from a point to the nearest edge of a boundary. Edges are
+// short enough to treat the earth as flat around the point.
+export const distanceToBoundary = (point: GeoPoint, boundary: ACBoundary): number => {
+  const metresPerDegreeLat = (Math.PI * EARTH_RADIUS_M) / 180;
+  const metresPerDegreeLng = metresPerDegreeLat * Math.cos(toRadians(point.latitude));
+  const project = ([longitude, latitude]: Position) => ({
+    x: (longitude - point.longitude) * metresPerDegreeLng,
+    y: (latitude - point.latitude) * metresPerDegreeLat,
+  });
+
+  let nearest = Infinity;
+  getPolygons(boundary.geometry).forEach(polygon => polygon.forEach(ring => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const a = project(ring[i]);
+      const b = project(ring[i + 1]);
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+      nearest = Math.min(nearest, Math.hypot(a.x + t * dx, a.y + t * dy));
+    }
+  }));
+  return nearest;
+};
+
+const sameAC = (boundary: ACBoundary, ac: string) =>
+  boundary.acName.toLowerCase().trim() === ac.toLowerCase().trim() || boundary.acCode === ac;
+
+export const findBoundaryForAC = (boundaries: ACBoundary[], ac: string) =>
+  boundaries.find(boundary => sameAC(boundary, ac)) || null;
+
+// The AC a position falls in, among the given ones
+export const findACForPoint = (boundaries: ACBoundary[], point: GeoPoint): ACBoundary | null =>
+  boundaries.find(boundary => isPointInBoundary(point, boundary)) || null;
+
+// Compare the selected AC with the position. 'unknown' when there is no
+// position or no boundary for the selected AC.
+export const verifyACSelection = (
+  boundaries: ACBoundary[],
+  selectedAC: string | null,
+  location: (GeoPoint & { accuracy?: number }) | null
+): ACVerification => {
+  const detected = location ? findACForPoint(boundaries, location) : null;
+  const selectedBoundary = selectedAC ? findBoundaryForAC(boundaries, selectedAC) : null;
+
+  let status: ACVerificationStatus = 'unknown';
+  let distance: number | null = null;
+  if (location && selectedBoundary) {
+    status = isPointInBoundary(location, selectedBoundary) ? 'inside' : 'outside';
+    distance = Math.round(distanceToBoundary(location, selectedBoundary));
+  }
+
+  return {
+    status,
+    selectedAC,
+    detectedAC: detected?.acName || null,
+    distanceToBoundary: distance,
+    latitude: location?.latitude ?? null,
+    longitude: location?.longitude ?? null,
+    accuracy: location?.accuracy ?? null,
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+export const formatDistance = (metres: number) =>
+  metres >= 1000 ? `${(metres / 1000).toFixed(1)} km` : `${Math.round(metres)} m`;
@@ -0,0 +1,69 @@
+// Location trail of an interview: fixes taken at the start, whenever a new
+// section begins, periodically, and at completion. Lets supervisors see
+// whether the interviewer stayed at the household.
+
+import { haversineDistance } from './geofence';
+
+export type TrailPointReason = 'start' | 'section' | 'periodic' | 'completion';
+
+export interface TrailPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  source: string;
+  timestamp: string;
+  reason: TrailPointReason;
+  sectionId?: string;
+  fixTimestamp?: string;
+  mocked?: boolean;
+}
+
+export interface TrailSummary {
+  pointCount: number;
+  startToEndDistance: number | null; // metres
+  maxDistanceFromStart: number | null; // metres
+  averageAccuracy: number | null; // metres
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+// Keeps a long interview from growing the draft without bound
+const MAX_TRAIL_POINTS = 200;
+
+// Add a point. When the trail is full the oldest periodic sample goes first,
+// then the oldest fix after the start. The start fix is always kept, since
+// summarizeTrail measures from it.
+export const appendTrailPoint = (trail: TrailPoint[], point: TrailPoint): TrailPoint[] => {
+  const next = [...trail, point];
+  if (next.length <= MAX_TRAIL_POINTS) return next;
+
+  const periodicIndex = next.findIndex(existing => existing.reason === 'periodic');
+  const dropIndex = periodicIndex === -1 ? 1 : periodicIndex;
+  return next.filter((_, index) => index !== dropIndex);
+};
+
+export const summarizeTrail = (trail: TrailPoint[]): TrailSummary => {
+  if (trail.length === 0) {
+    return {
+      pointCount: 0,
+      startToEndDistance: null,
+      maxDistanceFromStart: null,
+      averageAccuracy: null,
+      startedAt: null,
+      endedAt: null,
+    };
+  }
+
+  const start = trail[0];
+  const end = trail[trail.length - 1];
+  const distancesFromStart = trail.map(point => haversineDistance(start, point));
+
+  return {
+    pointCount: trail.length,
+    startToEndDistance: Math.round(haversineDistance(start, end)),
+    maxDistanceFromStart: Math.round(Math.max(...distancesFromStart)),
+    averageAccuracy: Math.round(trail.reduce((sum, point) => sum + (point.accuracy || 0), 0) / trail.length),
+    startedAt: start.timestamp,
+    endedAt: end.timestamp,
+  };
+};
@@ -0,0 +1,142 @@
+// Loop (roster) sections: a section with `loop` set is asked once per
+// iteration, e.g. once per household member. The iteration count comes from
+// an earlier answer - either a number, or a list of names (an array answer, or
+// text with one name per line or separated by commas).
+//
+// Every question in a looped section is copied per iteration with its own
+// response key, `<questionId>__<iteration>`, and conditions between questions
+// of the same section are rewritten to point at the same iteration.
+
+import { ConditionNode, isConditionGroup } from './conditions';
+
+const ITERATION_KEY_SEPARATOR = '__';
+const DEFAULT_MAX_ITERATIONS = 20;
+
+export interface LoopConfig {
+  sourceQuestionId: string;
+  maxIterations?: number;
+  // Label for numeric loops, with {n} replaced by the iteration number
+  labelTemplate?: string;
+}
+
+export interface LoopIteration {
+  sectionId: string;
+  sectionTitle: string;
+  sourceQuestionId: string;
+  iteration: number; // 1-based
+  total: number;
+  label: string;
+}
+
+export const getIterationKey = (questionId: string, iteration: number) =>
+  `${questionId}${ITERATION_KEY_SEPARATOR}${iteration}`;
+
+// Iteration labels for a looped section, one per iteration
+export const getLoopLabels = (loop: LoopConfig, responses: Record<string, any>): string[] => {
+  const source = responses[loop.sourceQuestionId];
+  const maxIterations = loop.maxIterations || DEFAULT_MAX_ITERATIONS;
+
+  let names: string[] = [];
+  if (Array.isArray(source)) {
+    names = source.map(name => String(name).trim());
+  } else if (typeof source === 'number' || (typeof source === 'string' && /^\s*\d+\s*$/.test(source))) {
+    const count = Math.max(0, Math.floor(Number(source)));
+    const template = loop.labelTemplate || 'Member {n}';
+    names = Array.from({ length: count }, (_, index) => template.replace('{n}', String(index + 1)));
+  } else if (typeof source === 'string') {
+    names = source.split(/[\n,]/).map(name => name.trim());
+  }
+
+  return names.filter(name => name.length > 0).slice(0, maxIterations);
+};
+
+const remapConditions = (conditions: ConditionNode[] | undefined, loopQuestionIds: string[], iteration: number): ConditionNode[] | undefined => {
+  if (!conditions) return conditions;
+
+  return conditions.map(node => {
+    if (isConditionGroup(node)) {
+      return { ...node, conditions: remapConditions(node.conditions, loopQuestionIds, iteration) || [] };
+    }
+    return loopQuestionIds.includes(node.questionId)
+      ? { ...node, questionId: getIterationKey(node.questionId, iteration) }
+      : node;
+  });
+};
+
+// Per-iteration copies of a looped section's questions, in iteration order
+export const expandLoopSection = (section: any, sectionIndex: number, labels: string[]): any[] => {
+  const questions = section.questions || [];
+  const loopQuestionIds = questions.map((question: any) => question.id);
+  const sectionId = section.id || section._id;
+
+  return labels.flatMap((label, index) => {
+    const iteration = index + 1;
+    const loopIteration: LoopIteration = {
+      sectionId,
+      sectionTitle: section.title,
+      sourceQuestionId: section.loop.sourceQuestionId,
+      iteration,
+      total: labels.length,
+      label,
+    };
+
+    return questions.map((question: any, questionIndex: number) => ({
+      ...question,
+      id: getIterationKey(question.id, iteration),
+      baseQuestionId: question.id,
+      conditions: remapConditions(question.conditions, loopQuestionIds, iteration),
+      sectionIndex,
+      questionIndex,
+      sectionId,
+      sectionTitle: section.title,
+      loopIteration,
+    }));
+  });
+};
+
+// Group the flat per-question responses of looped sections into one entry
+// per section, holding each iteration's responses in order. The group takes
+// the place of the section's first question.
+export const nestLoopResponses = (flatResponses: any[], questions: any[]): any[] => {
+  const nested: any[] = [];
+  const groups = new Map<string, any>();
+
+  flatResponses.forEach((entry, index) => {
+    const loopIteration: LoopIteration | undefined = questions[index]?.loopIteration;
+    if (!loopIteration) {
+      nested.push(entry);
+      return;
+    }
+
+    let group = groups.get(loopIteration.sectionId);
+    if (!group) {
+      group = {
+        sectionIndex: entry.sectionIndex,
+        questionId: loopIteration.sectionId,
+        questionType: 'loop',
+        questionText: loopIteration.sectionTitle,
+        loopSourceQuestionId: loopIteration.sourceQuestionId,
+        iterations: [],
+        response: null,
+        isSkipped: false,
+      };
+      groups.set(loopIteration.sectionId, group);
+      nested.push(group);
+    }
+
+    let iteration = group.iterations.find((existing: any) => existing.iteration === loopIteration.iteration);
+    if (!iteration) {
+      iteration = { iteration: loopIteration.iteration, label: loopIteration.label, responses: [] };
+      group.iterations.push(iteration);
+    }
+    iteration.responses.push({ ...entry, questionId: questions[index].baseQuestionId });
+  });
+
+  groups.forEach(group => {
+    group.isSkipped = group.iterations.every((iteration: any) =>
+      iteration.responses.every((entry: any) => entry.isSkipped)
+    );
+  });
+
+  return nested;
+};
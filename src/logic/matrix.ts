@@ -0,0 +1,102 @@
+// Matrix (grid) questions: the same set of columns, e.g. a 5-point scale, is
+// asked for every row, e.g. each leader. The answer is stored as one object
+// keyed by row value, holding a column value, or an array of column values
+// when the question allows several columns per row.
+
+import { hasAnswer } from './conditions';
+
+export interface MatrixItem {
+  id?: string;
+  text: string;
+  value?: string;
+  code?: string;
+  required?: boolean; // Rows only; defaults to the question's own flag
+}
+
+export type MatrixResponse = Record<string, string | string[]>;
+
+export interface MatrixRowAnswer {
+  rowCode: string;
+  rowText: string;
+  code: string | string[];
+  answer: string;
+}
+
+export const getItemValue = (item: MatrixItem) => item.value || item.text;
+
+const getItemCode = (item: MatrixItem) => item.code || getItemValue(item);
+
+export const allowsMultiplePerRow = (question: any) => !!question.settings?.allowMultiple;
+
+export const isRowRequired = (question: any, row: MatrixItem) =>
+  row.required !== undefined ? row.required : !!question.required;
+
+export const getMatrixResponse = (response: any): MatrixResponse =>
+  response && typeof response === 'object' && !Array.isArray(response) ? response : {};
+
+// Required rows that have no answer yet, in display order
+export const getMissingMatrixRows = (question: any, response: any): MatrixItem[] => {
+  const answers = getMatrixResponse(response);
+  return (question.rows || []).filter((row: MatrixItem) =>
+    isRowRequired(question, row) && !hasAnswer(answers[getItemValue(row)])
+  );
+};
+
+// Select (or toggle, for multi-select rows) one cell and return the new answer
+export const toggleMatrixCell = (question: any, response: any, row: MatrixItem, column: MatrixItem): MatrixResponse => {
+  const answers = { ...getMatrixResponse(response) };
+  const rowValue = getItemValue(row);
+  const columnValue = getItemValue(column);
+
+  if (allowsMultiplePerRow(question)) {
+    const current = Array.isArray(answers[rowValue]) ? (answers[rowValue] as string[]) : [];
+    answers[rowValue] = current.includes(columnValue)
+      ? current.filter(value => value !== columnValue)
+      : [...current, columnValue];
+  } else {
+    answers[rowValue] = columnValue;
+  }
+
+  if (!hasAnswer(answers[rowValue])) {
+    delete answers[rowValue];
+  }
+  return answers;
+};
+
+// Per-row codes for submission: responseCodes maps row code to column code(s),
+// responseWithCodes lists every answered row with its display text
+export const buildMatrixResponseCodes = (question: any, response: any) => {
+  const answers = getMatrixResponse(response);
+  const columns: MatrixItem[] = question.columns || [];
+  const responseCodes: Record<string, string | string[]> = {};
+  const responseWithCodes: MatrixRowAnswer[] = [];
+
+  (question.rows || []).forEach((row: MatrixItem) => {
+    const answer = answers[getItemValue(row)];
+    if (!hasAnswer(answer)) return;
+
+    const selected = (Array.isArray(answer) ? answer : [answer])
+      .map(value => columns.find(column => getItemValue(column) === value) || { text: String(value), value: String(value) });
+    const codes = selected.map(getItemCode);
+
+    responseCodes[getItemCode(row)] = Array.isArray(answer) ? codes : codes[0];
+    responseWithCodes.push({
+      rowCode: getItemCode(row),
+      rowText: row.text,
+      code: Array.isArray(answer) ? codes : codes[0],
+      answer: selected.map(column => column.text).join(', '),
+    });
+  });
+
+  return { responseCodes, responseWithCodes };
+};
+
+// One "Row: Column" line per row, for review screens
+export const formatMatrixResponse = (question: any, response: any): string => {
+  const { responseWithCodes } = buildMatrixResponseCodes(question, response);
+  const answeredRows = new Map(responseWithCodes.map(row => [row.rowCode, row.answer]));
+
+  return (question.rows || [])
+    .map((row: MatrixItem) => `${row.text}: ${answeredRows.get(getItemCode(row)) || 'No response'}`)
+    .join('\n');
+};
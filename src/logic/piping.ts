@@ -0,0 +1,115 @@
+// Answer piping for question text, descriptions and option labels.
+//
+//   {Q5}               answer to the 5th survey question (counting across sections)
+//   {<questionId>}     answer to the question with that id
+//   {AC}               the selected Assembly Constituency
+//   {LOOP}             the current loop iteration's label, e.g. a household member's name
+//   {Q5|that party}    text to use when Q5 was skipped or not answered yet
+//
+// Inside a loop section, references to questions of the same section resolve
+// to the answer given in the current iteration.
+//
+// Choice answers are shown as option text rather than stored values. Tokens
+// that do not refer to anything are left untouched so authoring mistakes stay
+// visible instead of silently disappearing.
+
+import { hasAnswer } from './conditions';
+import { formatMatrixResponse } from './matrix';
+import { LoopIteration, getIterationKey } from './loops';
+
+const PIPE_TOKEN_PATTERN = /\{\s*([A-Za-z0-9_-]+)\s*(?:\|([^{}]*))?\}/g;
+const QUESTION_NUMBER_PATTERN = /^Q(\d+)$/i;
+const AC_TOKEN = 'AC';
+const LOOP_TOKEN = 'LOOP';
+const DEFAULT_FALLBACK = '(not answered)';
+
+export interface PipingContext {
+  // Survey questions as authored (loop sections not expanded), each with its sectionId
+  questions: any[];
+  responses: Record<string, any>;
+  othersTextInputs?: Record<string, string>;
+  selectedAC?: string | null;
+  loopIteration?: LoopIteration | null;
+}
+
+const isOthersText = (text: string) => {
+  const normalized = text.toLowerCase().trim();
+  return normalized === 'other' || normalized === 'others' || normalized === 'others (specify)';
+};
+
+const findQuestion = (reference: string, questions: any[]) => {
+  const numberMatch = reference.match(QUESTION_NUMBER_PATTERN);
+  if (numberMatch) {
+    const byNumber = questions[parseInt(numberMatch[1], 10) - 1];
+    if (byNumber) return byNumber;
+  }
+  return questions.find(question => (question.id || question._id) === reference) || null;
+};
+
+const formatSingleAnswer = (value: any, question: any, context: PipingContext): string => {
+  if (question.type === 'yes_no') {
+    if (value === 'yes') return 'Yes';
+    if (value === 'no') return 'No';
+  }
+
+  const option = (question.options || []).find((opt: any) =>
+    typeof opt === 'string' ? opt === value : (opt.value || opt.text) === value
+  );
+  if (!option) return String(value);
+
+  const optionText = typeof option === 'string' ? option : option.text || String(value);
+  if (isOthersText(optionText)) {
+    const specified = context.othersTextInputs?.[`${question.id}_${value}`];
+    if (specified && specified.trim()) return specified.trim();
+  }
+  return optionText;
+};
+
+// Display text for a stored answer, or null when there is nothing to show
+export const formatAnswerForPiping = (question: any, context: PipingContext): string | null => {
+  const response = context.responses[question.id];
+  if (!hasAnswer(response)) return null;
+
+  if (question.type === 'matrix') {
+    return formatMatrixResponse(question, response).split('\n').join('; ');
+  }
+
+  if (Array.isArray(response)) {
+    return response.map(value => formatSingleAnswer(value, question, context)).join(', ');
+  }
+  return formatSingleAnswer(response, question, context);
+};
+
+export const pipeText = (text: string | undefined | null, context: PipingContext): string => {
+  if (!text || text.indexOf('{') === -1) return text || '';
+
+  return text.replace(PIPE_TOKEN_PATTERN, (token, reference: string, fallback?: string) => {
+    const fallbackText = fallback !== undefined ? fallback.trim() : DEFAULT_FALLBACK;
+
+    if (reference.toUpperCase() === AC_TOKEN) {
+      return context.selectedAC || fallbackText;
+    }
+    if (reference.toUpperCase() === LOOP_TOKEN) {
+      return context.loopIteration?.label || fallbackText;
+    }
+
+    let question = findQuestion(reference, context.questions);
+    if (!question) return token;
+
+    const { loopIteration } = context;
+    if (loopIteration && question.sectionId === loopIteration.sectionId) {
+      question = { ...question, id: getIterationKey(question.id, loopIteration.iteration) };
+    }
+
+    return formatAnswerForPiping(question, context) ?? fallbackText;
+  });
+};
+
+// Option labels are piped, option values are left alone so stored answers do
+// not depend on earlier answers
+export const pipeOptions = (options: any[] | undefined, context: PipingContext): any[] => {
+  if (!Array.isArray(options)) return [];
+  return options.map(option =>
+    typeof option === 'string' ? option : { ...option, text: pipeText(option.text, context) }
+  );
+};
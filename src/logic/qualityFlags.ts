@@ -0,0 +1,120 @@
+// Signs of a rushed or fabricated interview, raised to the interviewer while
+// the interview runs and attached to the submission for the QC queue.
+//
+//   speeding_question    an answered question got less than
+//                        minSecondsPerQuestion of attention
+//   speeding_interview   the whole interview took less than minInterviewSeconds
+//   straight_lining      straightLiningRun or more consecutive rating questions
+//                        got the same rating
+//
+// Thresholds come from Survey.qualityChecks, falling back to the defaults
+// below. The interview-length check only runs when the survey sets it.
+
+import { hasAnswer } from './conditions';
+import { DEFAULT_MIN_SECONDS_PER_QUESTION, QualityMetricsState, getTimeOnQuestion } from './qualityMetrics';
+
+export interface QualityCheckSettings {
+  minSecondsPerQuestion?: number;
+  minInterviewSeconds?: number;
+  straightLiningRun?: number;
+}
+
+export type QualityFlagCode = 'speeding_question' | 'speeding_interview' | 'straight_lining';
+
+export interface QualityFlag {
+  code: QualityFlagCode;
+  message: string;
+  questionIds: string[];
+}
+
+const DEFAULT_STRAIGHT_LINING_RUN = 4;
+
+const RATING_TYPES = ['rating', 'rating_scale'];
+
+const getMinSecondsPerQuestion = (settings?: QualityCheckSettings) =>
+  settings?.minSecondsPerQuestion ?? DEFAULT_MIN_SECONDS_PER_QUESTION;
+
+// Whether the answer to a question came faster than the survey allows
+export const isQuestionSpeeding = (
+  state: QualityMetricsState,
+  questionId: string,
+  settings?: QualityCheckSettings,
+  now: number = Date.now()
+) => getTimeOnQuestion(state, questionId, now) < getMinSecondsPerQuestion(settings) * 1000;
+
+// Runs of consecutive rating questions with the same answer, in the order
+// the questions were asked. Other question types in between break a run.
+export const findStraightLiningRuns = (
+  questions: any[],
+  responses: Record<string, any>,
+  settings?: QualityCheckSettings
+): string[][] => {
+  const minRun = settings?.straightLiningRun ?? DEFAULT_STRAIGHT_LINING_RUN;
+  const runs: string[][] = [];
+  let run: string[] = [];
+  let runValue: any = undefined;
+
+  const closeRun = () => {
+    if (run.length >= minRun) runs.push(run);
+    run = [];
+    runValue = undefined;
+  };
+
+  questions.forEach(question => {
+    const answer = responses[question.id];
+    if (!RATING_TYPES.includes(question.type) || !hasAnswer(answer)) {
+      closeRun();
+      return;
+    }
+    if (run.length > 0 && String(answer) !== String(runValue)) {
+      closeRun();
+    }
+    run.push(question.id);
+    runValue = answer;
+  });
+  closeRun();
+
+  return runs;
+};
+
+// All flags for a finished (or screened-out) interview
+export const getQualityFlags = (
+  questions: any[],
+  responses: Record<string, any>,
+  state: QualityMetricsState,
+  durationSeconds: number,
+  settings?: QualityCheckSettings,
+  now: number = Date.now()
+): QualityFlag[] => {
+  const flags: QualityFlag[] = [];
+
+  const speedingIds = questions
+    .filter(question => hasAnswer(responses[question.id]) && state.timings[question.id])
+    .filter(question => isQuestionSpeeding(state, question.id, settings, now))
+    .map(question => question.id);
+  if (speedingIds.length > 0) {
+    flags.push({
+      code: 'speeding_question',
+      message: `${speedingIds.length} question(s) answered in under ${getMinSecondsPerQuestion(settings)}s`,
+      questionIds: speedingIds,
+    });
+  }
+
+  if (settings?.minInterviewSeconds && durationSeconds < settings.minInterviewSeconds) {
+    flags.push({
+      code: 'speeding_interview',
+      message: `Interview took ${durationSeconds}s, less than the minimum of ${settings.minInterviewSeconds}s`,
+      questionIds: [],
+    });
+  }
+
+  findStraightLiningRuns(questions, responses, settings).forEach(run => {
+    flags.push({
+      code: 'straight_lining',
+      message: `Same rating given to ${run.length} questions in a row`,
+      questionIds: run,
+    });
+  });
+
+  return flags;
+};
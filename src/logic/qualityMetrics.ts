@@ -0,0 +1,199 @@
+// Interview quality metrics for QC. The collector state is a plain object so
+// it can be kept in a ref, saved with the draft and restored after an app
+// kill. Every record* function returns a new state.
+//
+// Data quality score (0-100) starts at 100 and loses points for:
+//   - rushed answers: up to 40 points, in proportion to the share of answered
+//     questions the interviewer spent less than the survey's
+//     qualityChecks.minSecondsPerQuestion on - the threshold the
+//     speeding_question flag uses too (see qualityFlags.ts)
+//   - back navigation: 2 points each, at most 15
+//   - answer changes: 2 points each, at most 15
+//   - pauses: 1 point each, at most 10, plus 10 points when the interview was
+//     paused for more than LONG_PAUSE_MS in total
+// Time spent on a question excludes time the interview was paused.
+
+import { hasAnswer } from './conditions';
+
+export const DEFAULT_MIN_SECONDS_PER_QUESTION = 2;
+const LONG_PAUSE_MS = 15 * 60 * 1000;
+
+export interface QuestionTiming {
+  questionId: string;
+  timeSpent: number; // ms, summed over all visits
+  visits: number;
+}
+
+export interface QualityMetricsState {
+  timings: Record<string, QuestionTiming>;
+  // Answer each question had when the interviewer last left it
+  committedAnswers: Record<string, any>;
+  activeQuestionId: string | null;
+  activeSince: number | null;
+  pausedAt: number | null;
+  backNavigationCount: number;
+  answerChangeCount: number;
+  totalPauses: number;
+  totalPauseTime: number; // ms
+}
+
+export interface QualityMetrics {
+  averageResponseTime: number; // seconds per answered question
+  backNavigationCount: number;
+  answerChangeCount: number;
+  totalPauses: number;
+  totalPauseTime: number; // seconds
+  rushedAnswerCount: number;
+  dataQualityScore: number;
+  questionTimings: { questionId: string; timeSpent: number; visits: number }[]; // timeSpent in seconds
+}
+
+export const createQualityMetrics = (): QualityMetricsState => ({
+  timings: {},
+  committedAnswers: {},
+  activeQuestionId: null,
+  activeSince: null,
+  pausedAt: null,
+  backNavigationCount: 0,
+  answerChangeCount: 0,
+  totalPauses: 0,
+  totalPauseTime: 0,
+});
+
+// A state restored from a draft: time that passed while the app was closed
+// is not counted against the question that was on screen
+export const restoreQualityMetrics = (state?: QualityMetricsState | null): QualityMetricsState => ({
+  ...createQualityMetrics(),
+  ...(state || {}),
+  activeQuestionId: null,
+  activeSince: null,
+  pausedAt: null,
+});
+
+const sameAnswer = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Close the visit to the question on screen: add its dwell time and, when the
+// answer differs from the one it was last left with, count an answer change
+const leaveQuestion = (state: QualityMetricsState, responses: Record<string, any>, now: number): QualityMetricsState => {
+  const questionId = state.activeQuestionId;
+  if (!questionId) return state;
+
+  const timing = state.timings[questionId] || { questionId, timeSpent: 0, visits: 0 };
+  const elapsed = state.activeSince !== null && state.pausedAt === null ? Math.max(0, now - state.activeSince) : 0;
+
+  const answer = responses[questionId];
+  const previous = state.committedAnswers[questionId];
+  const changed = hasAnswer(previous) && !sameAnswer(previous, answer);
+
+  return {
+    ...state,
+    timings: { ...state.timings, [questionId]: { ...timing, timeSpent: timing.timeSpent + elapsed } },
+    committedAnswers: hasAnswer(answer) ? { ...state.committedAnswers, [questionId]: answer } : state.committedAnswers,
+    answerChangeCount: state.answerChangeCount + (changed ? 1 : 0),
+    activeQuestionId: null,
+    activeSince: null,
+  };
+};
+
+// A question came on screen (or the interview ended, with questionId null)
+export const recordQuestionView = (
+  state: QualityMetricsState,
+  questionId: string | null,
+  responses: Record<string, any>,
+  now: number = Date.now()
+): QualityMetricsState => {
+  if (questionId && questionId === state.activeQuestionId) return state;
+
+  const left = leaveQuestion(state, responses, now);
+  if (!questionId) return left;
+
+  const timing = left.timings[questionId] || { questionId, timeSpent: 0, visits: 0 };
+  return {
+    ...left,
+    timings: { ...left.timings, [questionId]: { ...timing, visits: timing.visits + 1 } },
+    activeQuestionId: questionId,
+    activeSince: left.pausedAt === null ? now : null,
+  };
+};
+
+export const recordBackNavigation = (state: QualityMetricsState): QualityMetricsState => ({
+  ...state,
+  backNavigationCount: state.backNavigationCount + 1,
+});
+
+export const recordPause = (state: QualityMetricsState, now: number = Date.now()): QualityMetricsState => {
+  if (state.pausedAt !== null) return state;
+
+  const timing = state.activeQuestionId ? state.timings[state.activeQuestionId] : null;
+  const elapsed = state.activeSince !== null ? Math.max(0, now - state.activeSince) : 0;
+  return {
+    ...state,
+    timings: timing
+      ? { ...state.timings, [timing.questionId]: { ...timing, timeSpent: timing.timeSpent + elapsed } }
+      : state.timings,
+    activeSince: null,
+    pausedAt: now,
+    totalPauses: state.totalPauses + 1,
+  };
+};
+
+export const recordResume = (state: QualityMetricsState, now: number = Date.now()): QualityMetricsState => {
+  if (state.pausedAt === null) return state;
+
+  return {
+    ...state,
+    totalPauseTime: state.totalPauseTime + Math.max(0, now - state.pausedAt),
+    pausedAt: null,
+    activeSince: state.activeQuestionId ? now : null,
+  };
+};
+
+// Final metrics, computed over the questions that were answered
+export const summarizeQualityMetrics = (
+  state: QualityMetricsState,
+  responses: Record<string, any>,
+  minSecondsPerQuestion: number = DEFAULT_MIN_SECONDS_PER_QUESTION,
+  now: number = Date.now()
+): QualityMetrics => {
+  const finished = recordQuestionView(recordResume(state, now), null, responses, now);
+  const timings = Object.values(finished.timings);
+  const answered = timings.filter(timing => hasAnswer(responses[timing.questionId]));
+
+  const totalAnsweredTime = answered.reduce((sum, timing) => sum + timing.timeSpent, 0);
+  const rushedAnswerCount = answered.filter(timing => timing.timeSpent < minSecondsPerQuestion * 1000).length;
+
+  let score = 100;
+  if (answered.length > 0) {
+    score -= 40 * (rushedAnswerCount / answered.length);
+  }
+  score -= Math.min(15, finished.backNavigationCount * 2);
+  score -= Math.min(15, finished.answerChangeCount * 2);
+  score -= Math.min(10, finished.totalPauses);
+  if (finished.totalPauseTime > LONG_PAUSE_MS) score -= 10;
+
+  return {
+    averageResponseTime: answered.length > 0 ? Math.round(totalAnsweredTime / answered.length / 100) / 10 : 0,
+    backNavigationCount: finished.backNavigationCount,
+    answerChangeCount: finished.answerChangeCount,
+    totalPauses: finished.totalPauses,
+    totalPauseTime: Math.round(finished.totalPauseTime / 1000),
+    rushedAnswerCount,
+    dataQualityScore: Math.max(0, Math.round(score)),
+    questionTimings: timings.map(timing => ({
+      questionId: timing.questionId,
+      timeSpent: Math.round(timing.timeSpent / 100) / 10,
+      visits: timing.visits,
+    })),
+  };
+};
+
+// Milliseconds spent on a question so far, including the visit in progress
+export const getTimeOnQuestion = (state: QualityMetricsState, questionId: string, now: number = Date.now()) => {
+  const spent = state.timings[questionId]?.timeSpent || 0;
+  const isActive = state.activeQuestionId === questionId && state.activeSince !== null;
+  return spent + (isActive ? Math.max(0, now - (state.activeSince as number)) : 0);
+};
+
+// Seconds spent on one question, for the per-response responseTime field
+export const getQuestionTime = (metrics: QualityMetrics, questionId: string) =>
+  metrics.questionTimings.find(timing => timing.questionId === questionId)?.timeSpent || 0;
@@ -0,0 +1,45 @@
+// Client side quota evaluation. A quota cell is a set of skip-logic style
+// conditions over answers - e.g. gender is female AND age band is 18-25 AND the
+// AC is X - with a target and the number of completed interviews already in
+// it. Any answer can be a dimension, including the AC selection
+// ('ac-selection') and calculated questions such as an age band.
+
+import { ConditionNode, evaluateConditions, hasAnswer, isConditionGroup } from './conditions';
+
+export interface QuotaCell {
+  id: string;
+  quotaId: string;
+  label: string;
+  conditions: ConditionNode[];
+  target: number;
+  achieved: number;
+}
+
+export type QuotaCellMatch = 'in' | 'out' | 'undetermined';
+
+export const isCellFull = (cell: QuotaCell) => cell.target > 0 && cell.achieved >= cell.target;
+
+// Every question a cell depends on
+export const getCellQuestionIds = (conditions: ConditionNode[]): string[] =>
+  conditions.flatMap(node => (isConditionGroup(node) ? getCellQuestionIds(node.conditions) : [node.questionId]));
+
+// Whether the respondent falls into a cell. Until every dimension of the cell
+// has been answered the result is 'undetermined', so a half-finished
+// interview is never placed in a cell by accident.
+export const matchQuotaCell = (cell: QuotaCell, answers: Record<string, any>): QuotaCellMatch => {
+  const questionIds = getCellQuestionIds(cell.conditions);
+  if (questionIds.some(questionId => !hasAnswer(answers[questionId]))) {
+    return 'undetermined';
+  }
+  return evaluateConditions(cell.conditions, answers) ? 'in' : 'out';
+};
+
+// Cells the respondent definitely belongs to
+export const getMatchedCells = (cells: QuotaCell[], answers: Record<string, any>): QuotaCell[] =>
+  cells.filter(cell => matchQuotaCell(cell, answers) === 'in');
+
+// Cells the respondent belongs to that have already reached their target
+export const getFullMatchedCells = (cells: QuotaCell[], answers: Record<string, any>): QuotaCell[] =>
+  getMatchedCells(cells, answers).filter(isCellFull);
+
+export const formatQuotaCell = (cell: QuotaCell) => `${cell.label} (${cell.achieved}/${cell.target})`;
@@ -0,0 +1,68 @@
+// Ranking questions: the answer is an ordered array of option values, the
+// first entry being rank 1. With settings.maxRank the respondent only ranks
+// their top N; otherwise every option has to be ranked.
+
+export const getOptionValue = (option: any) =>
+  typeof option === 'string' ? option : option.value || option.text;
+
+// Number of ranks the respondent has to fill
+export const getRankingLimit = (question: any): number => {
+  const optionCount = (question.options || []).length;
+  const maxRank = parseInt(question.settings?.maxRank, 10);
+  return maxRank > 0 ? Math.min(maxRank, optionCount) : optionCount;
+};
+
+export const getRankedValues = (response: any): string[] =>
+  Array.isArray(response) ? response : [];
+
+export const isRankingComplete = (question: any, response: any) =>
+  getRankedValues(response).length >= getRankingLimit(question);
+
+// Add an option at the bottom of the ranking, or take it out again
+export const toggleRankedValue = (question: any, response: any, value: string): string[] => {
+  const ranked = getRankedValues(response);
+  if (ranked.includes(value)) {
+    return ranked.filter(rankedValue => rankedValue !== value);
+  }
+  if (ranked.length >= getRankingLimit(question)) {
+    return ranked;
+  }
+  return [...ranked, value];
+};
+
+export const moveRankedValue = (response: any, fromIndex: number, toIndex: number): string[] => {
+  const ranked = [...getRankedValues(response)];
+  if (fromIndex < 0 || fromIndex >= ranked.length) return ranked;
+
+  const target = Math.max(0, Math.min(ranked.length - 1, toIndex));
+  const [moved] = ranked.splice(fromIndex, 1);
+  ranked.splice(target, 0, moved);
+  return ranked;
+};
+
+// Ordered option codes plus rank and text per entry, for submission
+export const buildRankingResponseCodes = (question: any, response: any) => {
+  const options = question.options || [];
+  const ranked = getRankedValues(response);
+
+  const responseWithCodes = ranked.map((value, index) => {
+    const option = options.find((opt: any) => getOptionValue(opt) === value);
+    const code = (option && typeof option !== 'string' && option.code) || value;
+    return {
+      rank: index + 1,
+      code,
+      answer: option ? (typeof option === 'string' ? option : option.text) : value,
+      optionText: option ? (typeof option === 'string' ? option : option.text) : value,
+    };
+  });
+
+  return {
+    responseCodes: responseWithCodes.map(entry => entry.code),
+    responseWithCodes,
+  };
+};
+
+export const formatRankingResponse = (question: any, response: any): string =>
+  buildRankingResponseCodes(question, response).responseWithCodes
+    .map(entry => `${entry.rank}. ${entry.answer}`)
+    .join('\n');
@@ -0,0 +1,95 @@
+// Signs that location fixes come from a fake-GPS app rather than the device's
+// receiver. Each kind of signal adds its weight to a 0-100 risk score once,
+// however often it is seen:
+//
+//   mock_provider        the OS reports the fix as mocked (Android)     100
+//   implausible_jump     moving faster than MAX_PLAUSIBLE_SPEED_MPS between
+//                        consecutive fixes, allowing for their accuracy  40
+//   clock_mismatch       the fix time is far from the device clock       30
+//   impossible_accuracy  accuracy of MIN_PLAUSIBLE_ACCURACY_M or better,
+//                        or missing, which real receivers do not report  20
+
+import { haversineDistance } from './geofence';
+
+export type SpoofingSignalCode = 'mock_provider' | 'implausible_jump' | 'clock_mismatch' | 'impossible_accuracy';
+
+export interface SpoofingCheckFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp: string; // When the app received the fix (device clock)
+  fixTimestamp?: string; // When the provider says the fix was taken
+  mocked?: boolean;
+}
+
+export interface SpoofingSignal {
+  code: SpoofingSignalCode;
+  message: string;
+  at: string;
+}
+
+export interface SpoofingAssessment {
+  riskScore: number;
+  isMocked: boolean;
+  signals: SpoofingSignal[];
+}
+
+const SIGNAL_WEIGHTS: Record<SpoofingSignalCode, number> = {
+  mock_provider: 100,
+  implausible_jump: 40,
+  clock_mismatch: 30,
+  impossible_accuracy: 20,
+};
+
+const MAX_PLAUSIBLE_SPEED_MPS = 70; // ~250 km/h
+const MAX_CLOCK_DIFFERENCE_MS = 5 * 60 * 1000;
+const MIN_PLAUSIBLE_ACCURACY_M = 1;
+
+// Signals raised by one fix, compared with the fix before it
+export const checkFix = (fix: SpoofingCheckFix, previous?: SpoofingCheckFix | null): SpoofingSignal[] => {
+  const signals: SpoofingSignal[] = [];
+  const at = fix.timestamp;
+
+  if (fix.mocked) {
+    signals.push({ code: 'mock_provider', message: 'Location reported as mocked by the device', at });
+  }
+
+  if (!fix.accuracy || fix.accuracy < MIN_PLAUSIBLE_ACCURACY_M) {
+    signals.push({ code: 'impossible_accuracy', message: `Implausible accuracy of ${fix.accuracy || 0} m`, at });
+  }
+
+  if (fix.fixTimestamp) {
+    const difference = Math.abs(new Date(fix.fixTimestamp).getTime() - new Date(fix.timestamp).getTime());
+    if (difference > MAX_CLOCK_DIFFERENCE_MS) {
+      signals.push({
+        code: 'clock_mismatch',
+        message: `Fix time is ${Math.round(difference / 60000)} min away from the device clock`,
+        at,
+      });
+    }
+  }
+
+  if (previous) {
+    const seconds = (new Date(fix.timestamp).getTime() - new Date(previous.timestamp).getTime()) / 1000;
+    // Movement the two fixes' error circles cannot explain
+    const distance = Math.max(0, haversineDistance(previous, fix) - (previous.accuracy || 0) - (fix.accuracy || 0));
+    if (distance > 0 && (seconds <= 0 || distance / seconds > MAX_PLAUSIBLE_SPEED_MPS)) {
+      signals.push({
+        code: 'implausible_jump',
+        message: `Moved ${Math.round(distance)} m in ${Math.max(0, Math.round(seconds))}s`,
+        at,
+      });
+    }
+  }
+
+  return signals;
+};
+
+// Risk for a whole sequence of fixes, in the order they were taken
+export const assessFixes = (fixes: SpoofingCheckFix[]): SpoofingAssessment => {
+  const signals = fixes.flatMap((fix, index) => checkFix(fix, index > 0 ? fixes[index - 1] : null));
+  const codes = new Set(signals.map(signal => signal.code));
+  const riskScore = Math.min(100, Array.from(codes).reduce((sum, code) => sum + SIGNAL_WEIGHTS[code], 0));
+
+  return { riskScore, isMocked: codes.has('mock_provider'), signals };
+};
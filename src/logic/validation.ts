@@ -0,0 +1,110 @@
+// Answer validation for text and numeric questions, driven by
+// Question.validation. Empty answers are never invalid here - whether an answer
+// is needed at all is the job of the required checks.
+
+import { hasAnswer, toNumber } from './conditions';
+
+export type ValidationRule = 'pattern' | 'min' | 'max' | 'minLength' | 'maxLength' | 'integer';
+
+export interface QuestionValidation {
+  // Regular expression the whole answer has to match, e.g. "[6-9]\\d{9}" for
+  // a mobile number. Like an HTML pattern attribute it is implicitly anchored.
+  pattern?: string;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  integer?: boolean;
+  // Custom error messages per rule; `message` replaces all of them
+  messages?: Partial<Record<ValidationRule, string>>;
+  message?: string;
+}
+
+export interface AnswerValidationError {
+  question: any;
+  message: string;
+}
+
+const TEXT_TYPES = ['text', 'textarea'];
+const NUMBER_TYPES = ['number', 'numeric'];
+
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch (error) {
+    console.warn('Ignoring invalid validation pattern:', pattern);
+    return null;
+  }
+};
+
+const failure = (validation: QuestionValidation, rule: ValidationRule, defaultMessage: string) =>
+  validation.message || validation.messages?.[rule] || defaultMessage;
+
+// Error message for the first rule the answer breaks, or null when it is
+// valid. Numeric answers must be numbers even without any rules.
+export const validateAnswer = (question: any, response: any): string | null => {
+  const validation: QuestionValidation = question?.validation || {};
+  if (!hasAnswer(response)) return null;
+
+  const isText = TEXT_TYPES.includes(question?.type);
+  const isNumber = NUMBER_TYPES.includes(question?.type);
+  if (!isText && !isNumber) return null;
+
+  const text = String(response).trim();
+
+  if (isNumber) {
+    const value = toNumber(response);
+    if (value === null) {
+      return failure(validation, 'pattern', 'Please enter a valid number');
+    }
+    if (validation.integer && !Number.isInteger(value)) {
+      return failure(validation, 'integer', 'Please enter a whole number');
+    }
+    if (validation.min !== undefined && value < validation.min) {
+      return failure(validation, 'min', `Please enter a value of at least ${validation.min}`);
+    }
+    if (validation.max !== undefined && value > validation.max) {
+      return failure(validation, 'max', `Please enter a value of at most ${validation.max}`);
+    }
+  }
+
+  if (isText) {
+    if (validation.minLength !== undefined && text.length < validation.minLength) {
+      return failure(validation, 'minLength', `Please enter at least ${validation.minLength} characters`);
+    }
+    if (validation.maxLength !== undefined && text.length > validation.maxLength) {
+      return failure(validation, 'maxLength', `Please enter no more than ${validation.maxLength} characters`);
+    }
+  }
+
+  if (validation.pattern) {
+    const regex = compilePattern(validation.pattern);
+    if (regex && !regex.test(text)) {
+      return failure(validation, 'pattern', 'Please enter the answer in the expected format');
+    }
+  }
+
+  return null;
+};
+
+// Number answers are kept as typed while they are edited, so leading zeros and
+// a trailing point survive; the server gets them as numbers
+export const toSubmittedAnswer = (question: any, response: any): any =>
+  NUMBER_TYPES.includes(question?.type) && hasAnswer(response) ? toNumber(response) ?? response : response;
+
+// The answers map with every number answer converted for the server
+export const toSubmittedAnswers = (questions: any[], responses: Record<string, any>): Record<string, any> => {
+  const submitted = { ...responses };
+  questions.forEach(question => {
+    if (question.id in submitted) {
+      submitted[question.id] = toSubmittedAnswer(question, submitted[question.id]);
+    }
+  });
+  return submitted;
+};
+
+// Every invalid answer among the given questions, in question order
+export const validateAnswers = (questions: any[], responses: Record<string, any>): AnswerValidationError[] =>
+  questions
+    .map(question => ({ question, message: validateAnswer(question, responses[question.id]) }))
+    .filter((result): result is AnswerValidationError => result.message !== null);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -12,9 +12,15 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { Chip, Button } from 'react-native-paper';
-import { Audio } from 'expo-av';
 import { apiService } from '../services/api';
+import AudioPlayer, { AudioPlayerHandle } from '../components/AudioPlayer';
 import { SurveyResponse } from '../types';
+import { formatMatrixResponse } from '../logic/matrix';
+import { formatRankingResponse } from '../logic/ranking';
+import { QuestionTimecode, findTimecode, formatTimecode } from '../logic/audioTimecodes';
+import { getIterationKey } from '../logic/loops';
+import { summarizeTrail } from '../logic/locationTrail';
+import { formatDistance } from '../logic/geofence';
 
 interface InterviewDetailsProps {
   route?: {
@@ -42,32 +48,14 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
   }
   const [isLoading, setIsLoading] = useState(false);
   const [detailedInterview, setDetailedInterview] = useState<SurveyResponse | null>(null);
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  const audioPlayer = useRef<AudioPlayerHandle>(null);
 
   useEffect(() => {
     if (interview) {
       loadDetailedInterview();
     }
-    
-    // Cleanup audio when component unmounts
-    return () => {
-      if (sound) {
-        sound.unloadAsync();
-      }
-    };
   }, [interview]);
 
-  useEffect(() => {
-    // Cleanup audio when component unmounts
-    return () => {
-      if (sound) {
-        sound.unloadAsync();
-      }
-    };
-  }, [sound]);
-
   const loadDetailedInterview = async () => {
     if (!interview) {
       console.log('No interview data available');
@@ -116,53 +104,22 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
     }
   };
 
-  const handlePlayAudio = async () => {
-    if (!interview) {
-      Alert.alert('Error', 'Interview data not available.');
-      return;
-    }
-    
+  // Full URLs of the recording files, in order; null for files not uploaded
+  const getAudioUrls = (): (string | null)[] => {
+    if (!interview) return [];
     const audioUrl = interview.audioRecording?.url || interview.audioRecording?.audioUrl || interview.audioUrl;
-    if (!audioUrl) {
-      Alert.alert('No Audio', 'No audio recording available for this interview.');
-      return;
-    }
+    const urls = interview.audioRecording?.segmentUrls || (audioUrl ? [audioUrl] : []);
+    return urls.map(url => (!url || url.startsWith('http') ? url : `https://opine.exypnossolutions.com${url}`));
+  };
 
-    try {
-      if (sound) {
-        if (isPlaying) {
-          await sound.pauseAsync();
-          setIsPlaying(false);
-        } else {
-          await sound.playAsync();
-          setIsPlaying(true);
-        }
-      } else {
-        setIsLoadingAudio(true);
-        const fullAudioUrl = audioUrl.startsWith('http') ? audioUrl : `https://opine.exypnossolutions.com${audioUrl}`;
-        
-        const { sound: newSound } = await Audio.Sound.createAsync(
-          { uri: fullAudioUrl },
-          { shouldPlay: true }
-        );
-        
-        setSound(newSound);
-        setIsPlaying(true);
-        
-        newSound.setOnPlaybackStatusUpdate((status) => {
-          if (status.isLoaded) {
-            if (status.didJustFinish) {
-              setIsPlaying(false);
-            }
-          }
-        });
-      }
-    } catch (error) {
-      console.error('Error playing audio:', error);
-      Alert.alert('Audio Error', 'Failed to play audio recording.');
-    } finally {
-      setIsLoadingAudio(false);
+  // Jump playback to where a question was asked
+  const handlePlayFromTimecode = (timecode: QuestionTimecode) => {
+    if (!getAudioUrls()[timecode.displayedAt.segment]) {
+      Alert.alert('No Audio', 'The recording for this question is not available.');
+      return;
     }
+    audioPlayer.current?.playFrom(timecode.displayedAt.segment, timecode.displayedAt.offset)
+      .catch(error => console.error('Error seeking audio:', error));
   };
 
   const handleViewLocation = () => {
@@ -182,6 +139,16 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
       return 'No response';
     }
 
+    // Matrix answers are shown one row per line
+    if (surveyQuestion && surveyQuestion.type === 'matrix') {
+      return formatMatrixResponse(surveyQuestion, response);
+    }
+
+    // Rankings are shown in rank order, one per line
+    if (surveyQuestion && surveyQuestion.type === 'ranking') {
+      return formatRankingResponse(surveyQuestion, response);
+    }
+
     // If it's an array (multiple selections)
     if (Array.isArray(response)) {
       if (response.length === 0) return 'No selections';
@@ -268,17 +235,49 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
     return null;
   };
 
-  const renderResponseItem = (response: any, index: number) => {
+  const renderResponseItem = (response: any, index: number, iteration?: number) => {
+    // Loop sections hold one block of responses per iteration
+    if (response.questionType === 'loop') {
+      return (
+        <View key={index} style={styles.responseItem}>
+          <Text style={styles.questionText}>{response.questionText}</Text>
+          {(response.iterations || []).map((iteration: any) => (
+            <View key={iteration.iteration} style={styles.loopIteration}>
+              <Text style={styles.loopIterationLabel}>{iteration.iteration}. {iteration.label}</Text>
+              {iteration.responses.map((nested: any, nestedIndex: number) => renderResponseItem(nested, nestedIndex, iteration.iteration))}
+            </View>
+          ))}
+        </View>
+      );
+    }
+
     // Find the corresponding question in the survey to get options
     const survey = detailedInterview?.survey || interview?.survey;
     const surveyQuestion = findQuestionByText(response.questionText, survey);
     
     // Format the response for display
     const formattedResponse = formatResponseDisplay(response.response, surveyQuestion);
+
+    // Loop answers are timed per iteration
+    const timecode = findTimecode(
+      (detailedInterview || interview)?.audioRecording?.questionTimecodes,
+      iteration ? getIterationKey(response.questionId, iteration) : response.questionId
+    );
     
     return (
       <View key={index} style={styles.responseItem}>
-        <Text style={styles.questionText}>{response.questionText}</Text>
+        <View style={styles.questionHeader}>
+          <Text style={[styles.questionText, styles.questionHeaderText]}>{response.questionText}</Text>
+          {timecode && (
+            <TouchableOpacity
+              style={styles.timecodeButton}
+              onPress={() => handlePlayFromTimecode(timecode)}
+            >
+              <Ionicons name="play-circle-outline" size={16} color="#2563eb" />
+              <Text style={styles.timecodeText}>{formatTimecode(timecode.displayedAt.offset)}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
         <Text style={styles.answerText}>
           {response.isSkipped ? (
             <Text style={styles.skippedText}>Skipped</Text>
@@ -437,6 +436,24 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
                 <Text style={styles.locationLabel}>Country:</Text>
                 <Text style={styles.locationValue}>{(interview.location || interview.locationData)?.country || 'N/A'}</Text>
               </View>
+              {(interview.location || interview.locationData)?.override && (() => {
+                const override = (interview.location || interview.locationData)!.override!;
+                return (
+                  <>
+                    <View style={styles.locationRow}>
+                      <Text style={styles.locationLabel}>GPS Override:</Text>
+                      <Text style={[styles.locationValue, styles.locationWarningText]}>
+                        {override.bestAccuracy !== null ? `Best fix ±${override.bestAccuracy} m` : 'No fix'}
+                        {override.requiredAccuracy ? ` (required ±${override.requiredAccuracy} m)` : ''}
+                      </Text>
+                    </View>
+                    <View style={styles.locationRow}>
+                      <Text style={styles.locationLabel}>Override Reason:</Text>
+                      <Text style={styles.locationValue}>{override.reason}</Text>
+                    </View>
+                  </>
+                );
+              })()}
               <TouchableOpacity style={styles.mapButton} onPress={handleViewLocation}>
                 <Ionicons name="location" size={20} color="#3b82f6" />
                 <Text style={styles.mapButtonText}>View on Map</Text>
@@ -445,6 +462,52 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
           </View>
         )}
 
+        {/* Location Trail */}
+        {interview.locationTrail && interview.locationTrail.points.length > 0 && (() => {
+          const trail = interview.locationTrail.points;
+          const summary = summarizeTrail(trail);
+          const sectionFixes = trail.filter(point => point.reason === 'section').length;
+          const periodicFixes = trail.filter(point => point.reason === 'periodic').length;
+          const hasCompletionFix = trail.some(point => point.reason === 'completion');
+          return (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Location Trail</Text>
+              <View style={styles.infoCard}>
+                <View style={styles.locationRow}>
+                  <Text style={styles.locationLabel}>Start to End:</Text>
+                  <Text style={styles.locationValue}>
+                    {hasCompletionFix && summary.startToEndDistance !== null ? formatDistance(summary.startToEndDistance) : 'No completion fix'}
+                  </Text>
+                </View>
+                <View style={styles.locationRow}>
+                  <Text style={styles.locationLabel}>Furthest from Start:</Text>
+                  <Text style={styles.locationValue}>{formatDistance(summary.maxDistanceFromStart || 0)}</Text>
+                </View>
+                <View style={styles.locationRow}>
+                  <Text style={styles.locationLabel}>Fixes:</Text>
+                  <Text style={styles.locationValue}>
+                    {summary.pointCount} ({sectionFixes} section, {periodicFixes} periodic)
+                  </Text>
+                </View>
+                {summary.averageAccuracy !== null && (
+                  <View style={styles.locationRow}>
+                    <Text style={styles.locationLabel}>Average Accuracy:</Text>
+                    <Text style={styles.locationValue}>±{summary.averageAccuracy} m</Text>
+                  </View>
+                )}
+                {interview.locationSpoofing && (
+                  <View style={styles.locationRow}>
+                    <Text style={styles.locationLabel}>Spoofing Risk:</Text>
+                    <Text style={[styles.locationValue, interview.locationSpoofing.riskScore >= 50 && styles.locationWarningText]}>
+                      {interview.locationSpoofing.riskScore}/100{interview.locationSpoofing.isMocked ? ' (mock location)' : ''}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            </View>
+          );
+        })()}
+
         {/* Audio Recording */}
         {(interview.audioRecording || interview.audioUrl) && (
           <View style={styles.section}>
@@ -456,6 +519,18 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
                   {(interview.audioRecording?.url || interview.audioRecording?.audioUrl || interview.audioUrl) ? 'Yes' : 'No'}
                 </Text>
               </View>
+              {interview.audioRecording?.audioStatus === 'pending' && (
+                <View style={styles.audioRow}>
+                  <Text style={styles.audioLabel}>Upload:</Text>
+                  <Text style={[styles.audioValue, styles.audioPendingText]}>Pending on device</Text>
+                </View>
+              )}
+              {interview.audioRecording?.audioStatus === 'missing' && (
+                <View style={styles.audioRow}>
+                  <Text style={styles.audioLabel}>Upload:</Text>
+                  <Text style={[styles.audioValue, styles.audioMissingText]}>Recording lost</Text>
+                </View>
+              )}
               {(interview.audioRecording?.url || interview.audioRecording?.audioUrl || interview.audioUrl) && (
                 <>
                   {interview.audioRecording?.duration && (
@@ -474,20 +549,7 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
                       </Text>
                     </View>
                   )}
-                  <TouchableOpacity 
-                    style={[styles.playButton, isLoadingAudio && styles.disabledButton]} 
-                    onPress={handlePlayAudio}
-                    disabled={isLoadingAudio}
-                  >
-                    <Ionicons 
-                      name={isLoadingAudio ? "hourglass" : (isPlaying ? "pause" : "play")} 
-                      size={20} 
-                      color="#ffffff" 
-                    />
-                    <Text style={styles.playButtonText}>
-                      {isLoadingAudio ? "Loading..." : (isPlaying ? "Pause Audio" : "Play Audio")}
-                    </Text>
-                  </TouchableOpacity>
+                  <AudioPlayer ref={audioPlayer} interviewId={interview._id} audioUrls={getAudioUrls()} />
                 </>
               )}
             </View>
@@ -511,6 +573,20 @@ const InterviewDetails: React.FC<InterviewDetailsProps> = ({ route, navigation }
                 <Text style={styles.qualityLabel}>Back Navigation:</Text>
                 <Text style={styles.qualityValue}>{interview.qualityMetrics.backNavigationCount}</Text>
               </View>
+              {interview.qualityMetrics.answerChangeCount !== undefined && (
+                <View style={styles.qualityRow}>
+                  <Text style={styles.qualityLabel}>Answer Changes:</Text>
+                  <Text style={styles.qualityValue}>{interview.qualityMetrics.answerChangeCount}</Text>
+                </View>
+              )}
+              {interview.qualityMetrics.totalPauses !== undefined && (
+                <View style={styles.qualityRow}>
+                  <Text style={styles.qualityLabel}>Pauses:</Text>
+                  <Text style={styles.qualityValue}>
+                    {interview.qualityMetrics.totalPauses} ({Math.round((interview.qualityMetrics.totalPauseTime || 0) / 60)} min)
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
         )}
@@ -721,6 +797,9 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'right',
   },
+  locationWarningText: {
+    color: '#ef4444',
+  },
   mapButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -752,24 +831,11 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     fontWeight: '500',
   },
-  playButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: '#3b82f6',
-    paddingVertical: 12,
-    paddingHorizontal: 16,
-    borderRadius: 8,
-    marginTop: 8,
-  },
-  playButtonText: {
-    color: '#ffffff',
-    fontWeight: '500',
-    marginLeft: 8,
+  audioPendingText: {
+    color: '#f59e0b',
   },
-  disabledButton: {
-    backgroundColor: '#9ca3af',
-    opacity: 0.6,
+  audioMissingText: {
+    color: '#ef4444',
   },
   qualityRow: {
     flexDirection: 'row',
@@ -834,6 +900,40 @@ const styles = StyleSheet.create({
     color: '#f59e0b',
     fontStyle: 'italic',
   },
+  questionHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  questionHeaderText: {
+    flex: 1,
+  },
+  timecodeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    backgroundColor: '#eff6ff',
+  },
+  timecodeText: {
+    fontSize: 12,
+    color: '#2563eb',
+    fontWeight: '500',
+  },
+  loopIteration: {
+    marginTop: 12,
+    paddingLeft: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: '#bbf7d0',
+  },
+  loopIterationLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#166534',
+    marginBottom: 8,
+  },
   errorText: {
     fontSize: 16,
     color: '#dc2626',
@@ -1,9 +1,11 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   StyleSheet,
   ScrollView,
   Alert,
+  AppState,
+  AppStateStatus,
   Dimensions,
 } from 'react-native';
 import {
@@ -24,17 +26,148 @@ import { StatusBar } from 'expo-status-bar';
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system/legacy';
 import { apiService } from '../services/api';
-import { LocationService } from '../utils/location';
+import { offlineQueue } from '../services/offlineQueue';
+import { quotaSnapshots } from '../services/quotaSnapshots';
+import { acBoundaries } from '../services/acBoundaries';
+import { createGeocoder } from '../services/geocoding';
+import { RecordingFileInfo, recordingManifests } from '../services/recordingManifests';
+import { interviewDrafts, InterviewDraft } from '../services/interviewDrafts';
+import { LocationResult, LocationService, meetsAccuracy } from '../utils/location';
+import { evaluateConditions } from '../logic/conditions';
+import { PipingContext, pipeOptions, pipeText } from '../logic/piping';
+import {
+  allowsMultiplePerRow,
+  buildMatrixResponseCodes,
+  getItemValue,
+  getMatrixResponse,
+  getMissingMatrixRows,
+  isRowRequired,
+  toggleMatrixCell,
+} from '../logic/matrix';
+import {
+  buildRankingResponseCodes,
+  getRankedValues,
+  getRankingLimit,
+  isRankingComplete,
+  moveRankedValue,
+  toggleRankedValue,
+} from '../logic/ranking';
+import { expandLoopSection, getLoopLabels, nestLoopResponses } from '../logic/loops';
+import { toSubmittedAnswer, toSubmittedAnswers, validateAnswer, validateAnswers } from '../logic/validation';
+import { computeCalculatedValues } from '../logic/expressions';
+import {
+  QuestionTimecodes,
+  RecordingPosition,
+  buildTimecodeIndex,
+  recordQuestionAnswered,
+  recordQuestionDisplayed,
+} from '../logic/audioTimecodes';
+import { assessFixes, checkFix } from '../logic/spoofing';
+import { TrailPoint, TrailPointReason, appendTrailPoint, summarizeTrail } from '../logic/locationTrail';
+import { ACBoundary, findBoundaryForAC, formatDistance, verifyACSelection } from '../logic/geofence';
+import { findStraightLiningRuns, getQualityFlags, isQuestionSpeeding } from '../logic/qualityFlags';
+import {
+  QualityMetricsState,
+  createQualityMetrics,
+  getQuestionTime,
+  recordBackNavigation,
+  recordPause,
+  recordQuestionView,
+  recordResume,
+  restoreQualityMetrics,
+  summarizeQualityMetrics,
+} from '../logic/qualityMetrics';
+import { QuotaCell, formatQuotaCell, getCellQuestionIds, getFullMatchedCells, getMatchedCells } from '../logic/quotas';
+import RankingQuestion from '../components/RankingQuestion';
+import GpsAccuracyGate from '../components/GpsAccuracyGate';
 import { Survey, SurveyResponse } from '../types';
 
 const { width, height } = Dimensions.get('window');
 
+// Partial responses are pushed to the server shortly after the last change,
+// on every question change, and periodically while anything is still unsynced
+const PROGRESS_SYNC_DEBOUNCE_MS = 3000;
+const PROGRESS_SYNC_INTERVAL_MS = 30000;
+
+type ProgressSyncStatus = 'saved' | 'saving' | 'unsynced';
+
+// The draft is saved on every answer; the elapsed time only this often
+const DRAFT_DURATION_SAVE_INTERVAL_MS = 15000;
+
+// Why an interview is ended early, and the question whose answer triggered it
+interface ScreenOutReason {
+  code: 'not_eligible' | 'quota_full';
+  message: string;
+  question: any;
+  quotaCells?: QuotaCell[];
+}
+
+// Recordings are split into files of at most this length, so a crash or the
+// OS killing the app only loses the segment being written
+const RECORDING_SEGMENT_MS = 5 * 60 * 1000;
+const RECORDING_SEGMENT_CHECK_MS = 10000;
+
+// Location trail sampling while the interview runs
+const LOCATION_SAMPLE_INTERVAL_MS = 2 * 60 * 1000;
+const COMPLETION_FIX_TIMEOUT_MS = 10000;
+
+const RECORDING_OPTIONS: Audio.RecordingOptions = {
+  android: {
+    extension: '.m4a',
+    outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+    audioEncoder: Audio.AndroidAudioEncoder.AAC,
+    sampleRate: 44100,
+    numberOfChannels: 1,
+    bitRate: 128000,
+  },
+  ios: {
+    extension: '.m4a',
+    outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+    audioQuality: Audio.IOSAudioQuality.HIGH,
+    sampleRate: 44100,
+    numberOfChannels: 1,
+    bitRate: 128000,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: 128000,
+  },
+};
+
 // Simple audio recorder
-// Global recording instance
+// Global recording instance, and the session its segment belongs to
 let globalRecording: Audio.Recording | null = null;
+let globalRecordingSessionId: string | null = null;
+
+// Stop the current recording and file it in its session's manifest, so it is
+// kept even when the screen that started it is gone. Returns the saved file.
+const finishGlobalRecording = async (): Promise<string | null> => {
+  const recording = globalRecording;
+  const recordingSessionId = globalRecordingSessionId;
+  globalRecording = null;
+  globalRecordingSessionId = null;
+  if (!recording) return null;
+
+  let durationMillis = 0;
+  try {
+    const status = await recording.getStatusAsync();
+    durationMillis = status.durationMillis || 0;
+    if (status.isRecording || status.canRecord) {
+      await recording.stopAndUnloadAsync();
+    }
+  } catch (error) {
+    console.log('Error stopping recording (non-fatal):', error);
+  }
+
+  const uri = recording.getURI();
+  if (!uri) return null;
+  return recordingSessionId
+    ? recordingManifests.completeSegment(recordingSessionId, uri, durationMillis)
+    : uri;
+};
 
 export default function InterviewInterface({ navigation, route }: any) {
-  const { survey, responseId, isContinuing } = route.params;
+  const { survey, responseId, isContinuing, draftSessionId } = route.params;
   
   // Helper function to check if an option is "Other", "Others", or "Others (Specify)"
   const isOthersOption = (optText: string | null | undefined): boolean => {
@@ -50,7 +183,19 @@ export default function InterviewInterface({ navigation, route }: any) {
   const [responses, setResponses] = useState<Record<string, any>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [locationData, setLocationData] = useState<any>(null);
+  const locationTrail = useRef<TrailPoint[]>([]); // Start, section, periodic and completion fixes
+  const lastTrailSectionId = useRef<string | null>(null);
+  const notifiedMockLocation = useRef(false);
   const [locationLoading, setLocationLoading] = useState(false);
+  const [showGpsGate, setShowGpsGate] = useState(false);
+
+  // Addresses come from offline boundaries unless the survey allows network geocoding
+  const geocoder = useMemo(() => createGeocoder(survey), [survey]);
+  const isCapi = useMemo(
+    () => survey.mode === 'capi' || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi'),
+    [survey]
+  );
+
   const [startTime, setStartTime] = useState<Date | null>(null);
   const [duration, setDuration] = useState(0);
   const [snackbarVisible, setSnackbarVisible] = useState(false);
@@ -59,6 +204,8 @@ export default function InterviewInterface({ navigation, route }: any) {
   
   // Interview session state
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const sessionIdRef = useRef(sessionId); // Recording starts from a timer set before the session id is in state
+  sessionIdRef.current = sessionId;
   const [sessionData, setSessionData] = useState<any>(null);
   const [isInterviewActive, setIsInterviewActive] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
@@ -72,21 +219,49 @@ export default function InterviewInterface({ navigation, route }: any) {
   const [recording, setRecording] = useState<any>(null);
   const [audioPermission, setAudioPermission] = useState<boolean | null>(null);
   const [isCreatingRecording, setIsCreatingRecording] = useState(false);
+  const [activeRecordingUri, setActiveRecordingUri] = useState<string | null>(null);
+  const [recordingSegments, setRecordingSegments] = useState<string[]>([]); // Finished recording files, in order
+  const recordingSegmentsRef = useRef(recordingSegments);
+  recordingSegmentsRef.current = recordingSegments;
+  const isRotatingSegment = useRef(false);
   
   // AC selection state
   const [selectedAC, setSelectedAC] = useState<string | null>(null);
   const [assignedACs, setAssignedACs] = useState<string[]>([]);
+  const [acBoundaryList, setACBoundaryList] = useState<ACBoundary[]>([]); // Polygons of the assigned ACs
+  const acAutoSelected = useRef(false);
   const [requiresACSelection, setRequiresACSelection] = useState(false);
   
   // Quota management state
   const [genderQuotas, setGenderQuotas] = useState<any>(null);
+  const [quotaCells, setQuotaCells] = useState<QuotaCell[]>([]);
+  const [quotaDataAsOf, setQuotaDataAsOf] = useState<string | null>(null);
+  const notifiedQuotaCells = useRef<Set<string>>(new Set());
   const [targetAudienceErrors, setTargetAudienceErrors] = useState<Map<string, string>>(new Map());
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({}); // Question.validation failures
   const [othersTextInputs, setOthersTextInputs] = useState<Record<string, string>>({}); // Store "Others" text input values by questionId_optionValue
   const [shuffledOptions, setShuffledOptions] = useState<Record<string, any[]>>({}); // Store shuffled options per questionId to maintain consistent order
+  const qualityMetrics = useRef<QualityMetricsState>(createQualityMetrics()); // Dwell times, back navigation, pauses, answer changes
+  const notifiedStraightLining = useRef<Set<string>>(new Set()); // First question of each run already warned about
+  const questionTimecodes = useRef<QuestionTimecodes>({}); // Where in the recording each question was asked and answered
+  
+  // Server progress sync state
+  const [progressSyncStatus, setProgressSyncStatus] = useState<ProgressSyncStatus>('saved');
+  const progressRevision = useRef(0); // Bumped on every answer change
+  const syncedProgressRevision = useRef(0); // Last revision the server acknowledged
+  const progressSyncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isSyncingProgress = useRef(false);
+
+  // Iteration labels of every loop section. Serialized so the question list is
+  // only rebuilt when a loop's source answer actually changes the iterations.
+  const loopLabelsKey = JSON.stringify(
+    (survey.sections || []).map((section: any) => section.loop ? getLoopLabels(section.loop, responses) : null)
+  );
+  const loopLabels = useMemo(() => JSON.parse(loopLabelsKey) as Array<string[] | null>, [loopLabelsKey]);
 
   // Get all questions from all sections
   const allQuestions = useMemo(() => {
-    const questions = [];
+    const questions: any[] = [];
     
     // Debug survey data
     console.log('🔍 Survey data received:', {
@@ -126,6 +301,11 @@ export default function InterviewInterface({ navigation, route }: any) {
     // Add regular survey questions from sections
     if (survey.sections && survey.sections.length > 0) {
       survey.sections.forEach((section: any, sectionIndex: number) => {
+        // Loop sections are repeated once per iteration
+        if (section.loop) {
+          questions.push(...expandLoopSection(section, sectionIndex, loopLabels[sectionIndex] || []));
+          return;
+        }
         if (section.questions && section.questions.length > 0) {
           section.questions.forEach((question: any, questionIndex: number) => {
             questions.push({
@@ -157,7 +337,15 @@ export default function InterviewInterface({ navigation, route }: any) {
     console.log('🔍 Questions array:', questions.map(q => ({ id: q.id, text: q.text, type: q.type })));
     
     return questions;
-  }, [survey.sections, survey.questions, requiresACSelection, assignedACs]);
+  }, [survey.sections, survey.questions, requiresACSelection, assignedACs, loopLabels]);
+
+  // Survey questions as authored (loops not expanded), used to resolve {Q5} references
+  const surveyQuestions = useMemo(() => [
+    ...(survey.sections || []).flatMap((section: any) =>
+      (section.questions || []).map((question: any) => ({ ...question, sectionId: section.id || section._id }))
+    ),
+    ...(survey.questions || []),
+  ], [survey.sections, survey.questions]);
 
   // Helper function to check if response has content
   const hasResponseContent = (response: any): boolean => {
@@ -166,95 +354,77 @@ export default function InterviewInterface({ navigation, route }: any) {
     if (Array.isArray(response)) return response.length > 0;
     if (typeof response === 'number') return !isNaN(response) && isFinite(response); // Allow 0 and negative numbers
     if (typeof response === 'boolean') return true;
+    if (typeof response === 'object') return Object.values(response).some(hasResponseContent); // Matrix rows
     return true;
   };
 
+  // Calculated questions are never shown; their values are derived from the
+  // answers and can be used by conditions and piping like any other answer
+  const calculatedValues = useMemo(() => computeCalculatedValues(allQuestions, responses), [allQuestions, responses]);
+  const answers = useMemo(() => ({ ...responses, ...calculatedValues }), [responses, calculatedValues]);
+
   // Evaluate conditional logic for a question
-  const evaluateConditions = useCallback((question: any) => {
-    if (!question.conditions || question.conditions.length === 0) {
-      return true;
-    }
+  const isQuestionVisible = useCallback((question: any) => {
+    return evaluateConditions(question.conditions, answers);
+  }, [answers]);
 
-    const results = question.conditions.map((condition: any) => {
-      const response = responses[condition.questionId];
-      
-      if (response === undefined || response === null) {
-        return false;
-      }
+  // Get visible questions based on conditional logic
+  const visibleQuestions = useMemo(() => {
+    return allQuestions.filter((question: any) => question.type !== 'calculated' && isQuestionVisible(question));
+  }, [allQuestions, isQuestionVisible]);
 
-      let met = false;
-
-      switch (condition.operator) {
-        case 'equals':
-          met = String(response).toLowerCase() === String(condition.value).toLowerCase();
-          break;
-        case 'not_equals':
-          met = String(response).toLowerCase() !== String(condition.value).toLowerCase();
-          break;
-        case 'contains':
-          met = String(response).toLowerCase().includes(condition.value.toLowerCase());
-          break;
-        case 'not_contains':
-          met = !String(response).toLowerCase().includes(condition.value.toLowerCase());
-          break;
-        case 'greater_than':
-          met = parseFloat(response) > parseFloat(condition.value);
-          break;
-        case 'less_than':
-          met = parseFloat(response) < parseFloat(condition.value);
-          break;
-        case 'is_empty':
-          met = !hasResponseContent(response);
-          break;
-        case 'is_not_empty':
-          met = hasResponseContent(response);
-          break;
-        case 'is_selected':
-          if (Array.isArray(response)) {
-            met = response.some(r => String(r).toLowerCase() === String(condition.value).toLowerCase());
-          } else {
-            met = String(response).toLowerCase() === String(condition.value).toLowerCase();
-          }
-          break;
-        case 'is_not_selected':
-          if (Array.isArray(response)) {
-            met = !response.some(r => String(r).toLowerCase() === String(condition.value).toLowerCase());
-          } else {
-            met = String(response).toLowerCase() !== String(condition.value).toLowerCase();
-          }
-          break;
-        default:
-          met = false;
-      }
+  const currentQuestion = visibleQuestions[currentQuestionIndex];
+  const progress = (currentQuestionIndex + 1) / visibleQuestions.length;
 
-      return met;
-    });
+  // Time each question while it is on screen
+  const currentQuestionId: string | null = currentQuestion?.id || null;
+  useEffect(() => {
+    if (!isInterviewActive) return;
+    qualityMetrics.current = recordQuestionView(qualityMetrics.current, currentQuestionId, answers);
+  }, [currentQuestionId, isInterviewActive]);
 
-    // Handle AND/OR logic between conditions
-    if (results.length === 1) {
-      return results[0];
+  // Current position in the recording; the active file comes after the finished segments
+  const getRecordingPosition = async (): Promise<RecordingPosition | null> => {
+    if (!globalRecording) return null;
+    try {
+      const status = await globalRecording.getStatusAsync();
+      return status.canRecord || status.isDoneRecording
+        ? { segment: recordingSegmentsRef.current.length, offset: status.durationMillis }
+        : null;
+    } catch (error) {
+      console.log('Recording position unavailable (non-fatal):', error);
+      return null;
     }
+  };
 
-    let finalResult = results[0];
-    for (let i = 1; i < results.length; i++) {
-      const logic = question.conditions[i].logic || 'AND';
-      if (logic === 'AND') {
-        finalResult = finalResult && results[i];
-      } else if (logic === 'OR') {
-        finalResult = finalResult || results[i];
+  // Note where in the recording each question comes on screen, so QC can jump to it
+  useEffect(() => {
+    if (!isInterviewActive || !isRecording || !currentQuestionId) return;
+    getRecordingPosition().then(position => {
+      if (position) {
+        questionTimecodes.current = recordQuestionDisplayed(questionTimecodes.current, currentQuestionId, position);
       }
-    }
-
-    return finalResult;
-  }, [responses]);
-
-  // Get visible questions based on conditional logic
-  const visibleQuestions = useMemo(() => {
-    return allQuestions.filter((question: any) => evaluateConditions(question));
-  }, [allQuestions, evaluateConditions]);
+    });
+  }, [currentQuestionId, isInterviewActive, isRecording]);
 
-  const currentQuestion = visibleQuestions[currentQuestionIndex];
-  const progress = (currentQuestionIndex + 1) / visibleQuestions.length;
+  // Warn once per run when the same rating is given to a block of rating questions
+  useEffect(() => {
+    const runs = findStraightLiningRuns(visibleQuestions, answers, survey.qualityChecks);
+    const newRuns = runs.filter(run => !notifiedStraightLining.current.has(run[0]));
+    if (newRuns.length === 0) return;
+
+    newRuns.forEach(run => notifiedStraightLining.current.add(run[0]));
+    showSnackbar(`The same rating was given to ${newRuns[0].length} questions in a row. Please check the respondent is answering each one.`);
+  }, [visibleQuestions, answers]);
+
+  // Answers available for {Q5}-style piping in question text and options
+  const pipingContext = useMemo<PipingContext>(() => ({
+    questions: surveyQuestions,
+    responses: answers,
+    othersTextInputs,
+    selectedAC,
+    loopIteration: currentQuestion?.loopIteration,
+  }), [surveyQuestions, answers, othersTextInputs, selectedAC, currentQuestion?.loopIteration]);
 
   // Check audio permissions
   useEffect(() => {
@@ -276,50 +446,37 @@ export default function InterviewInterface({ navigation, route }: any) {
     const initializeInterview = async () => {
       setIsLoading(true);
       try {
-        // Get location
+        // Restore an interrupted interview from its local draft
+        if (isContinuing) {
+          const draft = draftSessionId ? await interviewDrafts.getDraft(draftSessionId) : null;
+          if (draft) {
+            await restoreDraft(draft);
+            return;
+          }
+          showSnackbar('No saved progress found on this device. Starting a new session.');
+        }
+
+        // Get location. CAPI interviews wait on the GPS gate when there is no
+        // fix or it is less accurate than the survey requires.
         setLocationLoading(true);
-        const location = await LocationService.getCurrentLocation();
-        setLocationData(location);
+        let location: LocationResult | null = null;
+        try {
+          location = await LocationService.getCurrentLocation(geocoder);
+        } catch (error) {
+          console.warn('Initial location failed:', error);
+        }
         setLocationLoading(false);
 
-        // Start timing
-        setStartTime(new Date());
-
-        // Start interview session
-        const result = await apiService.startInterview(survey._id);
-        if (result.success) {
-          setSessionId(result.response.sessionId);
-          setSessionData(result.response);
-          setIsInterviewActive(true);
-          
-          // Check for AC assignment
-          console.log('Session data loaded:', result.response);
-          const needsACSelection = result.response.requiresACSelection && 
-                                   result.response.assignedACs && 
-                                   result.response.assignedACs.length > 0;
-          
-          console.log('AC Selection required:', needsACSelection);
-          console.log('Assigned ACs:', result.response.assignedACs);
-          
-          setRequiresACSelection(needsACSelection);
-          setAssignedACs(result.response.assignedACs || []);
-          
-          // Start audio recording automatically for CAPI mode (both single-mode and multi-mode)
-          const shouldRecordAudio = (survey.mode === 'capi') || 
-                                   (survey.mode === 'multi_mode' && survey.assignedMode === 'capi');
-          
-          if (shouldRecordAudio && audioPermission && !isRecording) {
-            console.log('Auto-starting audio recording for CAPI mode...');
-            console.log('Survey mode:', survey.mode, 'Assigned mode:', survey.assignedMode);
-            // Add a longer delay to ensure component is fully mounted and ready
-            setTimeout(() => {
-              console.log('Attempting to start recording after delay...');
-              startAudioRecording();
-            }, 2000);
-          }
-        } else {
-          showSnackbar('Failed to start interview');
+        if (isCapi && (!location || !meetsAccuracy(location, survey.locationChecks?.minAccuracy))) {
+          console.log('📍 Waiting for GPS accuracy:', location?.accuracy, 'required:', survey.locationChecks?.minAccuracy);
+          setShowGpsGate(true);
+          return;
+        }
+        if (!location) {
+          throw new Error('Location unavailable');
         }
+
+        await startNewSession(location);
       } catch (error) {
         console.error('Error initializing interview:', error);
         showSnackbar('Failed to initialize interview');
@@ -331,6 +488,134 @@ export default function InterviewInterface({ navigation, route }: any) {
     initializeInterview();
   }, [survey, audioPermission]);
 
+  // Returns false when the location rules out starting the interview
+  const startNewSession = async (location: LocationResult): Promise<boolean> => {
+    setLocationData(location);
+
+    // A mock location app is running. Surveys can refuse CAPI interviews then.
+    if (location.mocked) {
+      if (isCapi && survey.locationChecks?.blockMockLocation) {
+        Alert.alert(
+          'Mock Location Detected',
+          'Your device is using a mock location app. Turn it off to start this interview.',
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+        return false;
+      }
+      notifiedMockLocation.current = true;
+      showSnackbar('Mock location detected. This interview will be flagged for review.');
+    }
+
+    // Start timing
+    setStartTime(new Date());
+
+    // Start interview session
+    const result = await apiService.startInterview(survey._id);
+    if (result.success) {
+      beginSession(result.response);
+    } else if (result.isNetworkError) {
+      // No connection - run the interview locally and let the outbox start it on the server later
+      const localSessionId = offlineQueue.createLocalSessionId();
+      console.log('Starting offline interview session:', localSessionId);
+      beginSession({
+        sessionId: localSessionId,
+        startTime: new Date().toISOString(),
+        requiresACSelection: !!(survey.assignedACs && survey.assignedACs.length > 0),
+        assignedACs: survey.assignedACs || [],
+        isOffline: true,
+      });
+      showSnackbar('You are offline. This interview will sync when connection returns.');
+    } else {
+      showSnackbar('Failed to start interview');
+    }
+    return true;
+  };
+
+  const handleGpsGateAccept = async (location: LocationResult) => {
+    setShowGpsGate(false);
+    setIsLoading(true);
+    try {
+      const started = await startNewSession(location);
+      if (started && location.override) {
+        showSnackbar('Started without the required GPS accuracy. The override has been recorded.');
+      }
+    } catch (error) {
+      console.error('Error starting interview after GPS check:', error);
+      showSnackbar('Failed to initialize interview');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const restoreDraft = async (draft: InterviewDraft) => {
+    console.log('Restoring interrupted interview:', draft.sessionId);
+    
+    // Keep only the recording segments that actually made it to disk. The
+    // manifest also knows the segment that was being written when the app died.
+    const recoveredSegments = await recordingManifests.recoverSegments(draft.sessionId);
+    const survivingSegments: string[] = recoveredSegments.map(segment => segment.uri);
+    const draftSegments = recoveredSegments.length > 0 ? [] : draft.recordingSegments || []; // Drafts saved before manifests existed
+    for (const segmentUri of draftSegments) {
+      try {
+        const fileInfo = await FileSystem.getInfoAsync(segmentUri);
+        if (fileInfo.exists && fileInfo.size > 0) {
+          survivingSegments.push(segmentUri);
+        }
+      } catch (error) {
+        console.log('Recording segment check failed (non-fatal):', error);
+      }
+    }
+    
+    setResponses(draft.responses || {});
+    setOthersTextInputs(draft.othersTextInputs || {});
+    setShuffledOptions(draft.shuffledOptions || {});
+    setCurrentQuestionIndex(draft.currentQuestionIndex || 0);
+    setSelectedAC(draft.selectedAC || null);
+    setLocationData(draft.locationData);
+    setRecordingSegments(survivingSegments);
+    setDuration(draft.duration || 0);
+    setStartTime(new Date(Date.now() - (draft.duration || 0) * 1000));
+    qualityMetrics.current = restoreQualityMetrics(draft.qualityMetrics);
+    questionTimecodes.current = draft.questionTimecodes || {};
+    locationTrail.current = draft.locationTrail || [];
+    
+    if (!offlineQueue.isLocalSessionId(draft.sessionId)) {
+      await apiService.resumeInterview(draft.sessionId);
+    }
+    
+    beginSession(draft.sessionData);
+    showSnackbar('Interrupted interview restored');
+  };
+
+  const beginSession = (session: any) => {
+    setSessionId(session.sessionId);
+    setSessionData(session);
+    setIsInterviewActive(true);
+    
+    // Check for AC assignment
+    console.log('Session data loaded:', session);
+    const needsACSelection = session.requiresACSelection && 
+                             session.assignedACs && 
+                             session.assignedACs.length > 0;
+    
+    console.log('AC Selection required:', needsACSelection);
+    console.log('Assigned ACs:', session.assignedACs);
+    
+    setRequiresACSelection(needsACSelection);
+    setAssignedACs(session.assignedACs || []);
+    
+    // Start audio recording automatically for CAPI mode (both single-mode and multi-mode)
+    if (isCapi && audioPermission && !isRecording) {
+      console.log('Auto-starting audio recording for CAPI mode...');
+      console.log('Survey mode:', survey.mode, 'Assigned mode:', survey.assignedMode);
+      // Add a longer delay to ensure component is fully mounted and ready
+      setTimeout(() => {
+        console.log('Attempting to start recording after delay...');
+        startAudioRecording();
+      }, 2000);
+    }
+  };
+
   // Update duration
   useEffect(() => {
     if (!startTime || isPaused) return;
@@ -344,21 +629,131 @@ export default function InterviewInterface({ navigation, route }: any) {
     return () => clearInterval(interval);
   }, [startTime, isPaused]);
 
+  // Persist the interview locally so an app kill or OS memory reclaim does not lose it
+  const persistDraft = () => {
+    if (!sessionId || !isInterviewActive) return;
+    
+    interviewDrafts.saveDraft({
+      sessionId,
+      survey,
+      sessionData,
+      responses,
+      othersTextInputs,
+      shuffledOptions,
+      currentQuestionIndex,
+      selectedAC,
+      duration,
+      recordingSegments: activeRecordingUri ? [...recordingSegments, activeRecordingUri] : recordingSegments,
+      locationData,
+      qualityMetrics: qualityMetrics.current,
+      questionTimecodes: questionTimecodes.current,
+      locationTrail: locationTrail.current,
+    });
+  };
+  const persistDraftRef = useRef(persistDraft);
+  persistDraftRef.current = persistDraft;
+
+  useEffect(() => {
+    persistDraft();
+  }, [sessionId, isInterviewActive, responses, othersTextInputs, shuffledOptions, currentQuestionIndex, selectedAC, recordingSegments, activeRecordingUri, isPaused]);
+
+  // The duration ticks every second, so it is saved on a timer instead
+  useEffect(() => {
+    if (!isInterviewActive || isPaused) return;
+
+    const interval = setInterval(() => {
+      persistDraftRef.current();
+    }, DRAFT_DURATION_SAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isInterviewActive, isPaused]);
+
+  // Push partial responses to the server so supervisors can follow live interviews
+  const syncProgress = async () => {
+    if (progressSyncTimer.current) {
+      clearTimeout(progressSyncTimer.current);
+      progressSyncTimer.current = null;
+    }
+    
+    const revision = progressRevision.current;
+    if (revision === syncedProgressRevision.current || isSyncingProgress.current) return;
+    
+    // Sessions started offline only exist on the server once the outbox replays them
+    const progressId = responseId || sessionData?.responseId || sessionId;
+    if (!progressId || !isInterviewActive || offlineQueue.isLocalSessionId(sessionId)) {
+      setProgressSyncStatus('unsynced');
+      return;
+    }
+    
+    isSyncingProgress.current = true;
+    setProgressSyncStatus('saving');
+    try {
+      const result = await apiService.saveInterviewProgress(progressId, toSubmittedAnswers(allQuestions, responses), {
+        currentQuestionIndex,
+        selectedAC,
+        totalTimeSpent: duration,
+        othersTextInputs,
+      });
+      if (result.success) {
+        syncedProgressRevision.current = revision;
+      }
+    } finally {
+      isSyncingProgress.current = false;
+      setProgressSyncStatus(syncedProgressRevision.current === progressRevision.current ? 'saved' : 'unsynced');
+    }
+  };
+  const syncProgressRef = useRef(syncProgress);
+  syncProgressRef.current = syncProgress;
+
+  // Debounce answer changes
+  useEffect(() => {
+    if (!sessionId || !isInterviewActive) return;
+    
+    progressRevision.current += 1;
+    setProgressSyncStatus('unsynced');
+    if (progressSyncTimer.current) {
+      clearTimeout(progressSyncTimer.current);
+    }
+    progressSyncTimer.current = setTimeout(() => {
+      syncProgressRef.current();
+    }, PROGRESS_SYNC_DEBOUNCE_MS);
+  }, [responses, othersTextInputs, selectedAC]);
+
+  // Sync immediately when moving between questions
+  useEffect(() => {
+    syncProgressRef.current();
+  }, [currentQuestionIndex]);
+
+  // Retry periodically while there is unsynced progress
+  useEffect(() => {
+    const interval = setInterval(() => {
+      syncProgressRef.current();
+    }, PROGRESS_SYNC_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      if (progressSyncTimer.current) {
+        clearTimeout(progressSyncTimer.current);
+      }
+    };
+  }, []);
+
+  // Save once more when the app is backgrounded - the OS may kill it from there
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') {
+        persistDraftRef.current();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   // Cleanup any existing recording on component mount - ensure clean state
   useEffect(() => {
     const cleanupOnMount = async () => {
-      // Always ensure globalRecording is null on mount
+      // Always ensure globalRecording is null on mount. A recording left by an
+      // earlier mount is kept in its session's manifest rather than discarded.
       if (globalRecording) {
-        try {
-          console.log('Cleaning up existing recording on mount...');
-          const status = await globalRecording.getStatusAsync();
-          if (status.isRecording || status.canRecord) {
-            await globalRecording.stopAndUnloadAsync();
-          }
-        } catch (error) {
-          console.log('Cleanup on mount error (non-fatal):', error);
-        }
-        globalRecording = null;
+        console.log('Cleaning up existing recording on mount...');
+        await finishGlobalRecording();
       }
       // Also reset audio mode to ensure clean state
       try {
@@ -384,24 +779,134 @@ export default function InterviewInterface({ navigation, route }: any) {
     };
   }, []);
 
-  // Fetch gender quotas from backend
-  const fetchGenderQuotas = useCallback(async () => {
+  // Fetch gender quotas and quota cells. Counts come from the cached snapshot
+  // when offline, and include interviews completed on this device that the
+  // server has not counted yet.
+  const fetchQuotas = useCallback(async () => {
     try {
-      const result = await apiService.getGenderResponseCounts(survey._id);
-      if (result.success) {
-        setGenderQuotas(result.data.genderQuotas);
-      }
+      const quotaView = await quotaSnapshots.refresh(survey._id);
+      setGenderQuotas(quotaView.genderQuotas);
+      setQuotaCells(quotaView.cells);
+      setQuotaDataAsOf(quotaView.fetchedAt);
     } catch (error) {
-      console.error('Error fetching gender quotas:', error);
+      console.error('Error fetching quotas:', error);
     }
   }, [survey._id]);
 
-  // Fetch gender quotas when component mounts
+  // Fetch quotas when component mounts
   useEffect(() => {
     if (survey._id) {
-      fetchGenderQuotas();
+      fetchQuotas();
     }
-  }, [survey._id, fetchGenderQuotas]);
+  }, [survey._id, fetchQuotas]);
+
+  // Add a fix to the location trail. Failures only cost one sample.
+  const sampleLocation = async (reason: TrailPointReason, sectionId?: string) => {
+    try {
+      const fix = await LocationService.getPositionFix();
+      const previous = locationTrail.current[locationTrail.current.length - 1];
+      locationTrail.current = appendTrailPoint(locationTrail.current, { ...fix, reason, sectionId });
+
+      const signals = checkFix(fix, previous);
+      if (signals.some(signal => signal.code === 'mock_provider') && !notifiedMockLocation.current) {
+        notifiedMockLocation.current = true;
+        showSnackbar('Mock location detected. This interview will be flagged for review.');
+      }
+    } catch (error) {
+      console.log('Location sample failed (non-fatal):', error);
+    }
+  };
+
+  // A GPS override without any fix leaves placeholder coordinates
+  const hasPositionFix = !!locationData && !(locationData.override && locationData.override.bestAccuracy === null);
+
+  // The fix taken when the interview started opens the trail
+  useEffect(() => {
+    if (!hasPositionFix || locationTrail.current.length > 0) return;
+    locationTrail.current = [{
+      latitude: locationData.latitude,
+      longitude: locationData.longitude,
+      accuracy: locationData.accuracy,
+      source: locationData.source,
+      timestamp: locationData.timestamp,
+      reason: 'start',
+      fixTimestamp: locationData.fixTimestamp,
+      mocked: locationData.mocked,
+    }];
+  }, [locationData]);
+
+  // A fix whenever the interview moves on to a new section
+  const currentSectionId: string | null = currentQuestion?.sectionId || null;
+  useEffect(() => {
+    if (!isInterviewActive || !currentSectionId) return;
+    const previousSectionId = lastTrailSectionId.current;
+    lastTrailSectionId.current = currentSectionId;
+    if (previousSectionId && previousSectionId !== currentSectionId) {
+      sampleLocation('section', currentSectionId);
+    }
+  }, [currentSectionId, isInterviewActive]);
+
+  // Periodic fixes in between, while the interview is running
+  useEffect(() => {
+    if (!isInterviewActive || isPaused) return;
+    const interval = setInterval(() => {
+      sampleLocation('periodic');
+    }, LOCATION_SAMPLE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isInterviewActive, isPaused]);
+
+  // Final fix on completion, without holding up submission for long
+  const sampleCompletionLocation = () => Promise.race([
+    sampleLocation('completion'),
+    new Promise(resolve => setTimeout(resolve, COMPLETION_FIX_TIMEOUT_MS)),
+  ]);
+
+  // Download (or read cached) AC boundaries when the interviewer has to pick an AC
+  useEffect(() => {
+    if (!requiresACSelection || assignedACs.length === 0) return;
+    acBoundaries.getBoundaries(survey._id)
+      .then(setACBoundaryList)
+      .catch(error => console.error('Error loading AC boundaries:', error));
+  }, [survey._id, requiresACSelection, assignedACs]);
+
+  // Where the GPS position puts the interviewer relative to the selected AC
+  const acVerification = useMemo(
+    () => (acBoundaryList.length > 0 ? verifyACSelection(acBoundaryList, selectedAC, hasPositionFix ? locationData : null) : null),
+    [acBoundaryList, selectedAC, locationData, hasPositionFix]
+  );
+
+  // The assigned AC the interviewer is standing in, if any
+  const detectedAC = useMemo(() => {
+    const detectedBoundary = acVerification?.detectedAC ? findBoundaryForAC(acBoundaryList, acVerification.detectedAC) : null;
+    return detectedBoundary ? assignedACs.find(ac => findBoundaryForAC([detectedBoundary], ac)) || null : null;
+  }, [acVerification, acBoundaryList, assignedACs]);
+
+  // Pre-select the detected AC once, if the interviewer has not picked one yet
+  useEffect(() => {
+    if (!detectedAC || selectedAC || acAutoSelected.current) return;
+    acAutoSelected.current = true;
+    setSelectedAC(detectedAC);
+    setResponses(prev => ({ ...prev, 'ac-selection': detectedAC }));
+    showSnackbar(`AC selected from your location: ${detectedAC}`);
+  }, [detectedAC, selectedAC]);
+
+  // Questions that decide which quota cell a respondent falls into
+  const quotaQuestionIds = useMemo(
+    () => new Set(quotaCells.flatMap(cell => getCellQuestionIds(cell.conditions))),
+    [quotaCells]
+  );
+
+  // Full cells the respondent falls into with the answers given so far
+  const fullQuotaCells = useMemo(() => getFullMatchedCells(quotaCells, answers), [quotaCells, answers]);
+
+  // Tell the interviewer once per cell as soon as the respondent lands in a full one
+  useEffect(() => {
+    const newlyFull = fullQuotaCells.filter(cell => !notifiedQuotaCells.current.has(cell.id));
+    if (newlyFull.length === 0) return;
+
+    newlyFull.forEach(cell => notifiedQuotaCells.current.add(cell.id));
+    showSnackbar(`Quota full: ${newlyFull.map(formatQuotaCell).join(', ')}`);
+  }, [fullQuotaCells]);
 
   const showSnackbar = (message: string) => {
     setSnackbarMessage(message);
@@ -413,15 +918,7 @@ export default function InterviewInterface({ navigation, route }: any) {
     try {
       if (globalRecording) {
         console.log('Cleaning up recording...');
-        try {
-          const status = await globalRecording.getStatusAsync();
-          if (status.isRecording || status.canRecord) {
-            await globalRecording.stopAndUnloadAsync();
-          }
-        } catch (error) {
-          console.log('Error during cleanup:', error);
-        }
-        globalRecording = null;
+        await finishGlobalRecording();
       }
     } catch (error) {
       console.log('Cleanup error:', error);
@@ -435,8 +932,7 @@ export default function InterviewInterface({ navigation, route }: any) {
 
   const handleResponseChange = (questionId: string, response: any) => {
     // Prevent interaction if recording hasn't started (for CAPI mode)
-    const shouldRecordAudio = (survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi');
-    if (shouldRecordAudio && !isRecording && audioPermission !== false) {
+    if (isCapi && !isRecording && audioPermission !== false) {
       return; // Block interaction until recording starts
     }
     
@@ -444,7 +940,28 @@ export default function InterviewInterface({ navigation, route }: any) {
       ...prev,
       [questionId]: response
     }));
+
+    getRecordingPosition().then(position => {
+      if (position) {
+        questionTimecodes.current = recordQuestionAnswered(questionTimecodes.current, questionId, position);
+      }
+    });
     
+    // Once an answer has been flagged, re-check it as it is corrected
+    if (answerErrors[questionId]) {
+      const question = allQuestions.find((q: any) => q.id === questionId);
+      const answerError = validateAnswer(question, response);
+      setAnswerErrors(prev => {
+        const updated = { ...prev };
+        if (answerError) {
+          updated[questionId] = answerError;
+        } else {
+          delete updated[questionId];
+        }
+        return updated;
+      });
+    }
+
     // Handle AC selection specially
     if (questionId === 'ac-selection') {
       setSelectedAC(response);
@@ -464,11 +981,11 @@ export default function InterviewInterface({ navigation, route }: any) {
         return newErrors;
       });
 
-      // Refresh gender quotas if gender question is answered
-      if (questionId === 'fixed_respondent_gender') {
+      // Refresh quota counts when a quota dimension or the gender is answered
+      if (quotaQuestionIds.has(questionId) || questionId === 'fixed_respondent_gender') {
         // Small delay to allow backend to process the response
         setTimeout(() => {
-          fetchGenderQuotas();
+          fetchQuotas();
         }, 1000);
       }
     } else {
@@ -490,8 +1007,27 @@ export default function InterviewInterface({ navigation, route }: any) {
       return;
     }
 
-    // Check if current question is required and not answered
-    if (currentQuestion.required) {
+    // A respondent in a full quota cell cannot continue
+    const screenOutReason = getScreenOutReason();
+    if (screenOutReason) {
+      promptScreenOut(screenOutReason);
+      return;
+    }
+
+    // Matrix questions are checked row by row
+    if (currentQuestion.type === 'matrix') {
+      const missingRows = getMissingMatrixRows(currentQuestion, responses[currentQuestion.id]);
+      if (missingRows.length > 0) {
+        showSnackbar(`Please answer every required row: ${missingRows.map(row => row.text).join(', ')}`);
+        return;
+      }
+    } else if (currentQuestion.type === 'ranking' && currentQuestion.required) {
+      if (!isRankingComplete(currentQuestion, responses[currentQuestion.id])) {
+        showSnackbar(`Please rank ${getRankingLimit(currentQuestion)} options before proceeding.`);
+        return;
+      }
+    } else if (currentQuestion.required) {
+      // Check if current question is required and not answered
       const response = responses[currentQuestion.id];
       const hasValidResponse = response !== null && 
                               response !== undefined && 
@@ -503,6 +1039,19 @@ export default function InterviewInterface({ navigation, route }: any) {
         return;
       }
     }
+
+    // Check pattern, range and length rules; the error is shown under the answer
+    const answerError = validateAnswer(currentQuestion, responses[currentQuestion.id]);
+    if (answerError) {
+      setAnswerErrors(prev => ({ ...prev, [currentQuestion.id]: answerError }));
+      return;
+    }
+
+    // Warn, but do not block, when a question was answered too quickly to have been read out
+    if (hasResponseContent(responses[currentQuestion.id]) &&
+        isQuestionSpeeding(qualityMetrics.current, currentQuestion.id, survey.qualityChecks)) {
+      showSnackbar('That answer came very quickly. Please read every question out in full.');
+    }
     
     if (currentQuestionIndex < visibleQuestions.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
@@ -511,6 +1060,7 @@ export default function InterviewInterface({ navigation, route }: any) {
 
   const goToPreviousQuestion = () => {
     if (currentQuestionIndex > 0) {
+      qualityMetrics.current = recordBackNavigation(qualityMetrics.current);
       setCurrentQuestionIndex(currentQuestionIndex - 1);
     }
   };
@@ -518,7 +1068,8 @@ export default function InterviewInterface({ navigation, route }: any) {
   const pauseInterview = async () => {
     try {
       setIsPaused(true);
-      if (sessionId) {
+      qualityMetrics.current = recordPause(qualityMetrics.current);
+      if (sessionId && !offlineQueue.isLocalSessionId(sessionId)) {
         await apiService.pauseInterview(sessionId);
       }
       
@@ -537,7 +1088,8 @@ export default function InterviewInterface({ navigation, route }: any) {
   const resumeInterview = async () => {
     try {
       setIsPaused(false);
-      if (sessionId) {
+      qualityMetrics.current = recordResume(qualityMetrics.current);
+      if (sessionId && !offlineQueue.isLocalSessionId(sessionId)) {
         await apiService.resumeInterview(sessionId);
       }
       
@@ -555,9 +1107,15 @@ export default function InterviewInterface({ navigation, route }: any) {
 
   const abandonInterview = async () => {
     try {
-      if (sessionId) {
+      if (sessionId && !offlineQueue.isLocalSessionId(sessionId)) {
         await apiService.abandonInterview(sessionId);
       }
+      if (sessionId) {
+        setIsInterviewActive(false);
+        await interviewDrafts.removeDraft(sessionId);
+        await stopAudioRecording();
+        await recordingManifests.removeManifest(sessionId, true);
+      }
       showSnackbar('Interview abandoned');
       navigation.navigate('Dashboard');
     } catch (error) {
@@ -566,6 +1124,101 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
   };
 
+  // Prepare and start a new recording file, registered in the session's manifest
+  const startRecordingSegment = async () => {
+    console.log('Creating new recording object...');
+    // Create a completely new recording object
+    const recording = new Audio.Recording();
+    
+    console.log('Preparing recording...');
+    // Only set globalRecording AFTER successful preparation
+    await recording.prepareToRecordAsync(RECORDING_OPTIONS);
+    
+    const uri = recording.getURI();
+    const recordingSessionId = sessionIdRef.current;
+    globalRecording = recording;
+    globalRecordingSessionId = recordingSessionId;
+    setActiveRecordingUri(uri);
+    if (recordingSessionId && uri) {
+      await recordingManifests.startSegment(recordingSessionId, uri);
+    }
+    
+    console.log('Starting recording...');
+    await recording.startAsync();
+  };
+
+  // Close the current file and carry on recording in a new one
+  const rotateRecordingSegment = async () => {
+    if (isRotatingSegment.current || !globalRecording) return;
+    isRotatingSegment.current = true;
+    try {
+      const finishedUri = await finishGlobalRecording();
+      if (finishedUri) {
+        setRecordingSegments(prev => [...prev, finishedUri]);
+      }
+      setActiveRecordingUri(null);
+      await startRecordingSegment();
+    } catch (error) {
+      console.error('Error starting next recording segment:', error);
+      setIsRecording(false);
+      showSnackbar('Audio recording stopped unexpectedly. Please restart it.');
+    } finally {
+      isRotatingSegment.current = false;
+    }
+  };
+  const rotateRecordingSegmentRef = useRef(rotateRecordingSegment);
+  rotateRecordingSegmentRef.current = rotateRecordingSegment;
+
+  // Close the file when the app is backgrounded, so it is playable even if the
+  // OS kills the app from there, and continue in a new one on return
+  const resumeRecordingOnActive = useRef(false);
+  const handleRecordingAppState = async (state: AppStateStatus) => {
+    if (state === 'background' && isRecording && !isAudioPaused && globalRecording && !isRotatingSegment.current) {
+      resumeRecordingOnActive.current = true;
+      const finishedUri = await finishGlobalRecording();
+      if (finishedUri) {
+        setRecordingSegments(prev => [...prev, finishedUri]);
+      }
+      setActiveRecordingUri(null);
+    } else if (state === 'active' && resumeRecordingOnActive.current) {
+      resumeRecordingOnActive.current = false;
+      try {
+        await startRecordingSegment();
+      } catch (error) {
+        console.error('Error restarting recording after background:', error);
+        setIsRecording(false);
+        showSnackbar('Audio recording could not be restarted. Please restart it.');
+      }
+    }
+  };
+  const handleRecordingAppStateRef = useRef(handleRecordingAppState);
+  handleRecordingAppStateRef.current = handleRecordingAppState;
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      handleRecordingAppStateRef.current(state).catch(console.error);
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Start a new segment once the current one reaches its maximum length
+  useEffect(() => {
+    if (!isRecording || isAudioPaused) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const status = await globalRecording?.getStatusAsync();
+        if (status?.isRecording && status.durationMillis >= RECORDING_SEGMENT_MS) {
+          await rotateRecordingSegmentRef.current();
+        }
+      } catch (error) {
+        console.log('Recording segment check failed (non-fatal):', error);
+      }
+    }, RECORDING_SEGMENT_CHECK_MS);
+
+    return () => clearInterval(interval);
+  }, [isRecording, isAudioPaused]);
+
   const startAudioRecording = async () => {
     if (isRecording) {
       console.log('Already recording, skipping...');
@@ -577,13 +1230,11 @@ export default function InterviewInterface({ navigation, route }: any) {
       
       // Clean up any existing recording - simple approach like before
       if (globalRecording) {
-        try {
-          console.log('Cleaning up existing recording...');
-          await globalRecording.stopAndUnloadAsync();
-        } catch (cleanupError) {
-          console.log('Cleanup error (non-fatal):', cleanupError);
+        console.log('Cleaning up existing recording...');
+        const previousUri = await finishGlobalRecording();
+        if (previousUri) {
+          setRecordingSegments(prev => [...prev, previousUri]);
         }
-        globalRecording = null;
         // Wait a bit for native module to release
         await new Promise(resolve => setTimeout(resolve, 300));
       }
@@ -602,40 +1253,7 @@ export default function InterviewInterface({ navigation, route }: any) {
         playThroughEarpieceAndroid: false,
       });
       
-      console.log('Creating new recording object...');
-      // Create a completely new recording object
-      const recording = new Audio.Recording();
-      
-      console.log('Preparing recording...');
-      // Only set globalRecording AFTER successful preparation
-      await recording.prepareToRecordAsync({
-        android: {
-          extension: '.m4a',
-          outputFormat: Audio.AndroidOutputFormat.MPEG_4,
-          audioEncoder: Audio.AndroidAudioEncoder.AAC,
-          sampleRate: 44100,
-          numberOfChannels: 1,
-          bitRate: 128000,
-        },
-        ios: {
-          extension: '.m4a',
-          outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
-          audioQuality: Audio.IOSAudioQuality.HIGH,
-          sampleRate: 44100,
-          numberOfChannels: 1,
-          bitRate: 128000,
-        },
-        web: {
-          mimeType: 'audio/webm',
-          bitsPerSecond: 128000,
-        },
-      });
-      
-      // Only set globalRecording after successful preparation
-      globalRecording = recording;
-      
-      console.log('Starting recording...');
-      await recording.startAsync();
+      await startRecordingSegment();
       
       // Don't set audioUri here - it will be set when we stop recording and get the actual URI
       setIsRecording(true);
@@ -651,12 +1269,7 @@ export default function InterviewInterface({ navigation, route }: any) {
       setIsRecording(false);
       // Clean up on error
       if (globalRecording) {
-        try {
-          await globalRecording.stopAndUnloadAsync();
-        } catch (cleanupError) {
-          console.log('Error cleaning up on failure:', cleanupError);
-        }
-        globalRecording = null;
+        await finishGlobalRecording();
       }
     }
   };
@@ -671,9 +1284,7 @@ export default function InterviewInterface({ navigation, route }: any) {
       }
       
       console.log('Stopping and unloading recording...');
-      await globalRecording.stopAndUnloadAsync();
-      
-      const uri = globalRecording.getURI();
+      const uri = await finishGlobalRecording();
       console.log('Recording URI:', uri);
       
       // Update audioUri state with the actual file URI
@@ -683,7 +1294,7 @@ export default function InterviewInterface({ navigation, route }: any) {
       
       setIsRecording(false);
       setIsAudioPaused(false);
-      globalRecording = null;
+      setActiveRecordingUri(null);
       
       showSnackbar('Audio recording completed');
       return uri;
@@ -724,11 +1335,25 @@ export default function InterviewInterface({ navigation, route }: any) {
 
   // Function to validate required questions
   const validateRequiredQuestions = () => {
-    const unansweredRequiredQuestions: Array<{question: any, index: number}> = [];
+    const unansweredRequiredQuestions: Array<{question: any, index: number, message?: string}> = [];
     
     // Check all visible questions (questions that were actually shown to the user)
     visibleQuestions.forEach((question, index) => {
-      if (question.required) {
+      if (question.type === 'matrix') {
+        if (getMissingMatrixRows(question, responses[question.id]).length > 0) {
+          unansweredRequiredQuestions.push({
+            question: question,
+            index: index
+          });
+        }
+      } else if (question.type === 'ranking' && question.required) {
+        if (!isRankingComplete(question, responses[question.id])) {
+          unansweredRequiredQuestions.push({
+            question: question,
+            index: index
+          });
+        }
+      } else if (question.required) {
         const response = responses[question.id];
         const hasValidResponse = response !== null && 
                                 response !== undefined && 
@@ -743,10 +1368,66 @@ export default function InterviewInterface({ navigation, route }: any) {
         }
       }
     });
+
+    // Answers that were given but break the question's validation rules
+    validateAnswers(visibleQuestions, responses).forEach(({ question, message }) => {
+      unansweredRequiredQuestions.push({
+        question: question,
+        index: visibleQuestions.indexOf(question),
+        message: message
+      });
+    });
     
     return unansweredRequiredQuestions;
   };
 
+  // Metadata shared by completed and screened-out submissions
+  const buildSessionMetadata = (audioSegments: RecordingFileInfo[] = []) => ({
+    survey: survey._id,
+    interviewer: sessionData?.interviewer || 'current-user',
+    sessionId: sessionId,
+    startTime: sessionData?.startTime || new Date(),
+    endTime: new Date(),
+    totalTimeSpent: duration,
+    interviewMode: survey.mode === 'multi_mode' ? (survey.assignedMode || 'capi') : (survey.mode || 'capi'),
+    deviceInfo: {
+      userAgent: 'React Native App',
+      platform: 'Mobile',
+      browser: 'React Native',
+      screenResolution: `${width}x${height}`,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    },
+    // audioUrl, hasAudio, fileSize and uploadedAt are filled in by the outbox once the file is uploaded
+    audioRecording: {
+      recordingDuration: Math.round(duration), // Use total interview duration
+      format: 'm4a',
+      codec: 'aac',
+      bitrate: 128000,
+      questionTimecodes: buildTimecodeIndex(questionTimecodes.current, allQuestions),
+      // Lengths of the recording files in upload order, for playback or a server-side concat
+      ...(audioSegments.length > 1 && {
+        segments: audioSegments,
+      }),
+    },
+    location: locationData,
+    locationTrail: {
+      points: locationTrail.current,
+      summary: summarizeTrail(locationTrail.current),
+    },
+    locationSpoofing: assessFixes(locationTrail.current),
+    selectedAC: selectedAC, // Include selected AC in response data
+    acVerification: acVerification,
+    qualityFlags: getQualityFlags(visibleQuestions, answers, qualityMetrics.current, duration, survey.qualityChecks),
+  });
+
+  const resetToDashboard = () => {
+    // Reset navigation stack to prevent going back to interview
+    navigation.reset({
+      index: 0,
+      routes: [{ name: 'Dashboard' }],
+    });
+  };
+
   const completeInterview = async () => {
     if (!sessionId) return;
 
@@ -756,6 +1437,13 @@ export default function InterviewInterface({ navigation, route }: any) {
       return;
     }
 
+    // A respondent in a full quota cell is screened out, not completed
+    const screenOutReason = getScreenOutReason();
+    if (screenOutReason) {
+      promptScreenOut(screenOutReason);
+      return;
+    }
+
     // Check for unanswered required questions
     const unansweredRequired = validateRequiredQuestions();
     if (unansweredRequired.length > 0) {
@@ -764,7 +1452,12 @@ export default function InterviewInterface({ navigation, route }: any) {
       
       if (questionIndex !== -1) {
         setCurrentQuestionIndex(questionIndex);
-        showSnackbar(`Please answer the required question: "${firstUnanswered.question.text}"`);
+        if (firstUnanswered.message) {
+          setAnswerErrors(prev => ({ ...prev, [firstUnanswered.question.id]: firstUnanswered.message as string }));
+          showSnackbar(`Please correct the answer to: "${firstUnanswered.question.text}"`);
+        } else {
+          showSnackbar(`Please answer the required question: "${firstUnanswered.question.text}"`);
+        }
         return;
       }
     }
@@ -773,7 +1466,6 @@ export default function InterviewInterface({ navigation, route }: any) {
       setIsLoading(true);
       
       // Stop audio recording and get audio URI
-      let audioUrl = null;
       let currentAudioUri = audioUri;
       
       console.log('Current audioUri state:', audioUri);
@@ -787,44 +1479,17 @@ export default function InterviewInterface({ navigation, route }: any) {
       }
       
       console.log('Final currentAudioUri:', currentAudioUri);
+      await sampleCompletionLocation();
+      const audioUris = currentAudioUri ? [...recordingSegmentsRef.current, currentAudioUri] : recordingSegmentsRef.current;
+      const audioSegments = await recordingManifests.describeFiles(sessionId as string, audioUris);
       
-      // Upload audio file if available
-      let audioFileSize = 0;
-      if (currentAudioUri) {
-        console.log('Uploading audio file...', currentAudioUri);
-        
-        try {
-          // Check if file exists before uploading
-          const fileInfo = await FileSystem.getInfoAsync(currentAudioUri);
-          if (!fileInfo.exists) {
-            console.error('Audio file does not exist at path:', currentAudioUri);
-            showSnackbar('Audio file not found, continuing without audio');
-          } else {
-            console.log('Audio file exists, size:', fileInfo.size);
-            const uploadResult = await apiService.uploadAudioFile(currentAudioUri, sessionId, survey._id);
-            if (uploadResult.success) {
-              audioUrl = uploadResult.response.audioUrl;
-              audioFileSize = uploadResult.response.size || 0;
-              console.log('Audio uploaded successfully:', audioUrl, 'Size:', audioFileSize);
-              showSnackbar('Audio recording uploaded successfully');
-            } else {
-              console.error('Failed to upload audio:', uploadResult.message);
-              showSnackbar('Failed to upload audio, continuing without audio');
-            }
-          }
-        } catch (uploadError: any) {
-          console.error('Error during audio upload:', uploadError);
-          showSnackbar('Failed to upload audio, continuing without audio');
-        }
-      } else {
-        console.log('No audio file to upload');
-      }
-      
+      const interviewQualityMetrics = summarizeQualityMetrics(qualityMetrics.current, answers, survey.qualityChecks?.minSecondsPerQuestion);
+
       // Prepare final response data for ALL questions (including skipped ones)
-      const finalResponses = allQuestions.map((question: any, index: number) => {
+      const flatResponses = allQuestions.map((question: any, index: number) => {
         // For multiple_choice with allowMultiple, default to array; otherwise default to empty string
         const defaultResponse = (question.type === 'multiple_choice' && question.settings?.allowMultiple) ? [] : '';
-        const response = responses[question.id] !== undefined ? responses[question.id] : defaultResponse;
+        const response = answers[question.id] !== undefined && answers[question.id] !== null ? answers[question.id] : defaultResponse;
         
         // Process response to include option codes and handle "Others" text input
         // Ensure processedResponse is an array for multiple_choice with allowMultiple
@@ -841,9 +1506,9 @@ export default function InterviewInterface({ navigation, route }: any) {
             processedResponse = [];
           }
         } else {
-          processedResponse = response || '';
+          processedResponse = toSubmittedAnswer(question, response) || '';
         }
-        let responseCodes: string | string[] | null = null;
+        let responseCodes: string | string[] | Record<string, string | string[]> | null = null;
         let responseWithCodes: any = null;
         
         // Find "Others" option value for this question
@@ -853,7 +1518,17 @@ export default function InterviewInterface({ navigation, route }: any) {
         });
         const othersOptionValue = othersOption ? (othersOption.value || othersOption.text) : null;
         
-        if (question.type === 'multiple_choice' && question.options) {
+        if (question.type === 'matrix') {
+          // Per-row codes, e.g. { LEADER_1: '4', LEADER_2: '2' }
+          const matrixCodes = buildMatrixResponseCodes(question, processedResponse);
+          responseCodes = matrixCodes.responseCodes;
+          responseWithCodes = matrixCodes.responseWithCodes;
+        } else if (question.type === 'ranking') {
+          // Option codes in rank order, rank 1 first
+          const rankingCodes = buildRankingResponseCodes(question, processedResponse);
+          responseCodes = rankingCodes.responseCodes;
+          responseWithCodes = rankingCodes.responseWithCodes;
+        } else if (question.type === 'multiple_choice' && question.options) {
           if (Array.isArray(processedResponse)) {
             // Multiple selection
             responseCodes = [];
@@ -975,75 +1650,64 @@ export default function InterviewInterface({ navigation, route }: any) {
           response: finalResponse, // Use finalResponse which includes "Others: [specified text]"
           responseCodes: responseCodes, // Include option codes
           responseWithCodes: responseWithCodes, // Include structured response with codes
-          responseTime: 0,
+          responseTime: getQuestionTime(interviewQualityMetrics, question.id),
           isRequired: question.required,
-          isSkipped: !response // True if no response provided
+          isSkipped: !hasResponseContent(response) // True if no response provided
         };
       });
+      // Loop section answers are submitted grouped by section and iteration
+      const finalResponses = nestLoopResponses(flatResponses, allQuestions);
+
+      // Count the interview against its quotas locally until the server has it.
+      // Recorded before queueing so a background sync cannot overtake it
+      await quotaSnapshots.recordLocalCompletion(survey._id, {
+        sessionId: sessionId,
+        cellIds: getMatchedCells(quotaCells, answers).map(cell => cell.id),
+        gender: responses['fixed_respondent_gender'] || null,
+      });
 
-      const result = await apiService.completeInterview(sessionId, {
-        responses: finalResponses,
-        qualityMetrics: {
-          averageResponseTime: 1,
-          backNavigationCount: 0,
-          dataQualityScore: 100,
-          totalPauseTime: 0,
-          totalPauses: 0
-        },
-        metadata: {
-          survey: survey._id,
-          interviewer: sessionData?.interviewer || 'current-user',
-          status: 'Pending_Approval',
-          sessionId: sessionId,
-          startTime: sessionData?.startTime || new Date(),
-          endTime: new Date(),
-          totalTimeSpent: duration,
-          interviewMode: survey.mode === 'multi_mode' ? (survey.assignedMode || 'capi') : (survey.mode || 'capi'),
-          deviceInfo: {
-            userAgent: 'React Native App',
-            platform: 'Mobile',
-            browser: 'React Native',
-            screenResolution: `${width}x${height}`,
-            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
-          },
-            audioRecording: {
-              audioUrl: audioUrl,
-              hasAudio: !!audioUrl,
-              recordingDuration: Math.round(duration), // Use total interview duration
-              format: 'm4a',
-              codec: 'aac',
-              bitrate: 128000,
-              fileSize: audioFileSize, // Use actual file size from upload response
-              uploadedAt: audioUrl ? new Date().toISOString() : null
-            },
-          location: locationData,
-          selectedAC: selectedAC, // Include selected AC in response data
-          totalQuestions: allQuestions.length,
-          answeredQuestions: finalResponses.filter((r: any) => hasResponseContent(r.response)).length,
-          skippedQuestions: finalResponses.filter((r: any) => !hasResponseContent(r.response)).length,
-          completionPercentage: Math.round((finalResponses.filter((r: any) => hasResponseContent(r.response)).length / allQuestions.length) * 100)
+      const queuedInterview = await offlineQueue.enqueueInterview({
+        surveyId: survey._id,
+        surveyName: survey.surveyName,
+        sessionId: sessionId,
+        audioUris,
+        payload: {
+          responses: finalResponses,
+          qualityMetrics: interviewQualityMetrics,
+          metadata: {
+            ...buildSessionMetadata(audioSegments),
+            status: 'Pending_Approval',
+            totalQuestions: allQuestions.length,
+            answeredQuestions: flatResponses.filter((r: any) => hasResponseContent(r.response)).length,
+            skippedQuestions: flatResponses.filter((r: any) => !hasResponseContent(r.response)).length,
+            completionPercentage: Math.round((flatResponses.filter((r: any) => hasResponseContent(r.response)).length / allQuestions.length) * 100)
+          }
         }
       });
 
-      if (result.success) {
+      // The outbox now holds the interview durably, so the local draft is no longer needed
+      setIsInterviewActive(false);
+      await interviewDrafts.removeDraft(sessionId);
+      await recordingManifests.removeManifest(sessionId);
+
+      // Try to submit right away; anything that cannot be sent stays in the outbox
+      const syncResult = await offlineQueue.sync();
+      const syncedInterview = syncResult.synced.find(item => item.id === queuedInterview.id);
+
+      if (syncedInterview) {
+        const audioPending = offlineQueue.getAudioStatus(syncedInterview) === 'pending';
         Alert.alert(
           'Interview Completed',
-          `Interview completed successfully! Response ID: ${result.response.responseId}. Your response has been submitted for quality approval.`,
-          [
-            {
-              text: 'OK',
-              onPress: () => {
-                // Reset navigation stack to prevent going back to interview
-                navigation.reset({
-                  index: 0,
-                  routes: [{ name: 'Dashboard' }],
-                });
-              }
-            }
-          ]
+          `Interview completed successfully! Response ID: ${syncedInterview.responseId}. Your response has been submitted for quality approval.` +
+            (audioPending ? ' The audio recording is kept on this device and will upload when the connection allows.' : ''),
+          [{ text: 'OK', onPress: resetToDashboard }]
         );
       } else {
-        showSnackbar('Failed to complete interview');
+        Alert.alert(
+          'Interview Saved',
+          'Interview completed and queued for sync. It will be submitted automatically when a connection is available.',
+          [{ text: 'OK', onPress: resetToDashboard }]
+        );
       }
     } catch (error) {
       console.error('Error completing interview:', error);
@@ -1053,6 +1717,129 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
   };
 
+  // Reason to end the interview early at the current question, if any
+  const getScreenOutReason = (): ScreenOutReason | null => {
+    const question = visibleQuestions[currentQuestionIndex];
+    const targetAudienceError = question ? targetAudienceErrors.get(question.id) : undefined;
+    if (targetAudienceError) {
+      const isQuotaFull = question.id === 'fixed_respondent_gender' && !!getGenderQuota(responses[question.id])?.isFull;
+      return {
+        code: isQuotaFull ? 'quota_full' : 'not_eligible',
+        message: targetAudienceError,
+        question,
+      };
+    }
+
+    if (fullQuotaCells.length > 0) {
+      // The cell was decided by the last of its questions answered up to here
+      const dimensionIds = new Set(fullQuotaCells.flatMap(cell => getCellQuestionIds(cell.conditions)));
+      const triggerQuestion = visibleQuestions
+        .slice(0, currentQuestionIndex + 1)
+        .reverse()
+        .find((q: any) => dimensionIds.has(q.id)) || question;
+      return {
+        code: 'quota_full',
+        message: `Quota full: ${fullQuotaCells.map(formatQuotaCell).join(', ')}`,
+        question: triggerQuestion,
+        quotaCells: fullQuotaCells,
+      };
+    }
+
+    return null;
+  };
+
+  const promptScreenOut = (reason: ScreenOutReason) => {
+    Alert.alert(
+      'Screen Out Respondent',
+      `${reason.message}\n\nEnd this interview as screened out? The answers so far and the audio recording will be kept.`,
+      [
+        { text: 'Change Answer', style: 'cancel' },
+        { text: 'Screen Out', style: 'destructive', onPress: () => screenOutInterview(reason) },
+      ]
+    );
+  };
+
+  const handleScreenOutPress = () => {
+    const reason = getScreenOutReason();
+    if (reason) {
+      promptScreenOut(reason);
+    }
+  };
+
+  // End the interview early. Only a lightweight record is submitted - the
+  // answers given so far, the reason and the triggering question - together
+  // with the audio recorded up to this point.
+  const screenOutInterview = async (reason: ScreenOutReason) => {
+    if (!sessionId) return;
+
+    try {
+      setIsLoading(true);
+
+      let currentAudioUri = audioUri;
+      if (isRecording) {
+        currentAudioUri = await stopAudioRecording();
+      }
+      await sampleCompletionLocation();
+      const audioUris = currentAudioUri ? [...recordingSegmentsRef.current, currentAudioUri] : recordingSegmentsRef.current;
+      const audioSegments = await recordingManifests.describeFiles(sessionId, audioUris);
+
+      const answeredResponses = visibleQuestions
+        .filter((question: any) => hasResponseContent(answers[question.id]))
+        .map((question: any) => ({
+          questionId: question.id,
+          questionType: question.type,
+          questionText: question.text,
+          response: toSubmittedAnswer(question, answers[question.id]),
+        }));
+
+      const queuedScreenOut = await offlineQueue.enqueueInterview({
+        kind: 'screen_out',
+        surveyId: survey._id,
+        surveyName: survey.surveyName,
+        sessionId: sessionId,
+        audioUris,
+        payload: {
+          responses: answeredResponses,
+          qualityMetrics: summarizeQualityMetrics(qualityMetrics.current, answers, survey.qualityChecks?.minSecondsPerQuestion),
+          screenOut: {
+            reasonCode: reason.code,
+            reason: reason.message,
+            questionId: reason.question?.id || null,
+            questionText: reason.question?.text || null,
+            response: reason.question ? answers[reason.question.id] ?? null : null,
+            quotaCells: (reason.quotaCells || []).map(cell => ({ id: cell.id, quotaId: cell.quotaId, label: cell.label })),
+            screenedOutAt: new Date().toISOString(),
+          },
+          metadata: {
+            ...buildSessionMetadata(audioSegments),
+            status: 'Screened_Out',
+            totalQuestions: allQuestions.length,
+            answeredQuestions: answeredResponses.length,
+          }
+        }
+      });
+
+      setIsInterviewActive(false);
+      await interviewDrafts.removeDraft(sessionId);
+      await recordingManifests.removeManifest(sessionId);
+
+      const syncResult = await offlineQueue.sync();
+      const isSynced = syncResult.synced.some(item => item.id === queuedScreenOut.id);
+      Alert.alert(
+        'Interview Screened Out',
+        isSynced
+          ? 'The screen-out has been recorded.'
+          : 'The screen-out is saved on this device and will be submitted when a connection is available.',
+        [{ text: 'OK', onPress: resetToDashboard }]
+      );
+    } catch (error) {
+      console.error('Error screening out interview:', error);
+      showSnackbar('Failed to screen out interview');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -1073,6 +1860,17 @@ export default function InterviewInterface({ navigation, route }: any) {
     return null; // Valid age
   };
 
+  // Quota counts for a gender answer, when the survey tracks them
+  const getGenderQuota = (gender: string) => {
+    const genderMapping = {
+      'male': 'Male',
+      'female': 'Female', 
+      'non_binary': 'Non-binary'
+    };
+    const mappedGender = genderMapping[gender as keyof typeof genderMapping];
+    return mappedGender && genderQuotas ? genderQuotas[mappedGender] || null : null;
+  };
+
   // Validate gender against target audience requirements and quotas
   const validateGender = (gender: string) => {
     const genderRequirements = survey.targetAudience?.demographics?.genderRequirements;
@@ -1099,11 +1897,8 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
 
     // Check quota if available
-    if (genderQuotas && genderQuotas[mappedGender]) {
-      const quota = genderQuotas[mappedGender];
-      if (quota.isFull) {
-        return `Sample size for ${mappedGender} is completed. Please select a different gender.`;
-      }
+    if (getGenderQuota(gender)?.isFull) {
+      return `Sample size for ${mappedGender} is completed. Please select a different gender.`;
     }
 
     return null; // Valid gender
@@ -1130,7 +1925,7 @@ export default function InterviewInterface({ navigation, route }: any) {
   };
 
   // Get shuffled options for a question (shuffle once, then reuse)
-  // ONLY for multiple_choice questions, and only if shuffleOptions is enabled
+  // ONLY for multiple_choice and ranking questions, and only if shuffleOptions is enabled
   const getShuffledOptions = (questionId: string, originalOptions: any[], question?: any): any[] => {
     if (!originalOptions || originalOptions.length === 0) return originalOptions || [];
     
@@ -1164,12 +1959,14 @@ export default function InterviewInterface({ navigation, route }: any) {
     const currentResponse = responses[question.id] !== undefined ? responses[question.id] : defaultResponse;
     const questionId = question.id;
     
-    // Get shuffled options ONLY for multiple_choice questions (if shuffleOptions is enabled)
+    // Get shuffled options ONLY for multiple_choice and ranking questions (if shuffleOptions is enabled)
     // Dropdown and other question types use original order
     let displayOptions = question.options;
-    if (question.type === 'multiple_choice') {
+    if (question.type === 'multiple_choice' || question.type === 'ranking') {
       displayOptions = getShuffledOptions(questionId, question.options || [], question);
     }
+    // Pipe after shuffling so the cached order never holds stale labels
+    displayOptions = pipeOptions(displayOptions, pipingContext);
 
     switch (question.type) {
       case 'text':
@@ -1183,29 +1980,25 @@ export default function InterviewInterface({ navigation, route }: any) {
             style={styles.textInput}
             multiline={question.type === 'textarea'}
             numberOfLines={question.type === 'textarea' ? 6 : 3}
+            maxLength={question.validation?.maxLength}
+            error={!!answerErrors[question.id]}
           />
         );
 
+      // Numbers are kept as typed while editing, so a trailing point or a
+      // leading zero does not jump around and patterns see what was entered.
+      // They are sent to the server as numbers (toSubmittedAnswer).
       case 'number':
       case 'numeric':
         return (
           <TextInput
             mode="outlined"
             value={currentResponse !== null && currentResponse !== undefined ? currentResponse.toString() : ''}
-            onChangeText={(text) => {
-              // Allow empty string or valid number (including 0 and negative numbers)
-              if (text === '') {
-                handleResponseChange(question.id, '');
-              } else {
-                const numValue = parseFloat(text);
-                if (!isNaN(numValue) && isFinite(numValue)) {
-                  handleResponseChange(question.id, numValue);
-                }
-              }
-            }}
+            onChangeText={(text) => handleResponseChange(question.id, text)}
             placeholder="Enter a number..."
             keyboardType="numeric"
             style={styles.textInput}
+            error={!!answerErrors[question.id]}
           />
         );
 
@@ -1506,6 +2299,56 @@ export default function InterviewInterface({ navigation, route }: any) {
           </View>
         );
 
+      case 'matrix':
+        const matrixAnswers = getMatrixResponse(currentResponse);
+        const matrixColumns = pipeOptions(question.columns, pipingContext);
+        const multiplePerRow = allowsMultiplePerRow(question);
+
+        return (
+          <View style={styles.optionsContainer}>
+            {pipeOptions(question.rows, pipingContext).map((row: any, rowIndex: number) => {
+              const rowAnswer = matrixAnswers[getItemValue(row)];
+              return (
+                <View key={row.id || rowIndex} style={styles.matrixRow}>
+                  <Text style={styles.matrixRowText}>
+                    {row.text}{isRowRequired(question, row) ? ' *' : ''}
+                  </Text>
+                  <View style={styles.matrixColumns}>
+                    {matrixColumns.map((column: any, columnIndex: number) => {
+                      const columnValue = getItemValue(column);
+                      const isSelected = multiplePerRow
+                        ? Array.isArray(rowAnswer) && rowAnswer.includes(columnValue)
+                        : rowAnswer === columnValue;
+                      return (
+                        <Chip
+                          key={column.id || columnIndex}
+                          mode={isSelected ? 'flat' : 'outlined'}
+                          selected={isSelected}
+                          onPress={() => handleResponseChange(question.id, toggleMatrixCell(question, currentResponse, row, column))}
+                          style={[styles.matrixChip, isSelected && styles.matrixChipSelected]}
+                        >
+                          {column.text}
+                        </Chip>
+                      );
+                    })}
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        );
+
+      case 'ranking':
+        return (
+          <RankingQuestion
+            options={displayOptions}
+            ranked={getRankedValues(currentResponse)}
+            limit={getRankingLimit(question)}
+            onToggle={(value) => handleResponseChange(question.id, toggleRankedValue(question, currentResponse, value))}
+            onMove={(fromIndex, toIndex) => handleResponseChange(question.id, moveRankedValue(currentResponse, fromIndex, toIndex))}
+          />
+        );
+
       case 'yes_no':
         return (
           <View style={styles.optionsContainer}>
@@ -1550,6 +2393,19 @@ export default function InterviewInterface({ navigation, route }: any) {
     }
   };
 
+  if (showGpsGate) {
+    return (
+      <GpsAccuracyGate
+        requiredAccuracy={survey.locationChecks?.minAccuracy || null}
+        waitSeconds={survey.locationChecks?.gpsWaitSeconds}
+        allowOverride={survey.locationChecks?.allowManualOverride !== false}
+        geocoder={geocoder}
+        onAccept={handleGpsGateAccept}
+        onCancel={() => navigation.goBack()}
+      />
+    );
+  }
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -1621,7 +2477,7 @@ export default function InterviewInterface({ navigation, route }: any) {
         {/* Recording Indicator and Location (compact) - Separate line */}
         <View style={styles.headerStatusRow}>
           {/* Recording Indicator */}
-          {((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && (
+          {isCapi && (
             <View style={styles.recordingIndicator}>
               <View style={[
                 styles.recordingDotSmall,
@@ -1644,6 +2500,28 @@ export default function InterviewInterface({ navigation, route }: any) {
             </View>
           )}
           
+          {/* Server progress sync status */}
+          <View style={styles.syncIndicator}>
+            <View style={[
+              styles.recordingDotSmall,
+              {
+                backgroundColor: progressSyncStatus === 'saved'
+                  ? '#10b981'
+                  : progressSyncStatus === 'saving'
+                    ? '#2563eb'
+                    : '#f59e0b'
+              }
+            ]} />
+            <Text style={styles.recordingStatusTextSmall}>
+              {progressSyncStatus === 'saved'
+                ? 'Saved'
+                : progressSyncStatus === 'saving'
+                  ? 'Saving...'
+                  : 'Unsynced'
+              }
+            </Text>
+          </View>
+          
             {/* Location (only for first question) */}
             {currentQuestionIndex === 0 && (
               <>
@@ -1678,8 +2556,7 @@ export default function InterviewInterface({ navigation, route }: any) {
         <Card style={styles.questionCard}>
           <Card.Content>
             {/* Show loading/blocking overlay if recording hasn't started */}
-            {((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
-             !isRecording && audioPermission !== false && (
+            {isCapi && !isRecording && audioPermission !== false && (
               <View style={styles.blockingOverlay}>
                 <View style={styles.blockingContent}>
                   <ActivityIndicator size="large" color="#2563eb" />
@@ -1690,7 +2567,7 @@ export default function InterviewInterface({ navigation, route }: any) {
             )}
             
             {/* Show permission denied message */}
-            {((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
+            {isCapi && 
              audioPermission === false && (
               <View style={styles.blockingOverlay}>
                 <View style={styles.blockingContent}>
@@ -1700,9 +2577,16 @@ export default function InterviewInterface({ navigation, route }: any) {
               </View>
             )}
             
-            <Text style={styles.questionText}>{currentQuestion.text}</Text>
+            {currentQuestion.loopIteration && (
+              <View style={styles.loopBanner}>
+                <Text style={styles.loopBannerText}>
+                  {currentQuestion.loopIteration.sectionTitle}: {currentQuestion.loopIteration.label} ({currentQuestion.loopIteration.iteration} of {currentQuestion.loopIteration.total})
+                </Text>
+              </View>
+            )}
+            <Text style={styles.questionText}>{pipeText(currentQuestion.text, pipingContext)}</Text>
             {currentQuestion.description && (
-              <Text style={styles.questionDescription}>{currentQuestion.description}</Text>
+              <Text style={styles.questionDescription}>{pipeText(currentQuestion.description, pipingContext)}</Text>
             )}
             {currentQuestion.required && (
               <Text style={styles.requiredText}>* Required</Text>
@@ -1710,19 +2594,75 @@ export default function InterviewInterface({ navigation, route }: any) {
             
             <View style={[
               styles.questionContent,
-              (!isRecording && audioPermission !== false && 
-               ((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi'))) && 
+              (!isRecording && audioPermission !== false && isCapi) && 
               styles.disabledContent
             ]}>
               {renderQuestion(currentQuestion)}
             </View>
+
+            {/* GPS check of the selected AC */}
+            {currentQuestion.id === 'ac-selection' && acVerification && (
+              acVerification.status === 'outside' ? (
+                <View style={styles.quotaWarning}>
+                  <Text style={styles.quotaWarningText}>
+                    Your location is {formatDistance(acVerification.distanceToBoundary || 0)} outside {selectedAC}
+                    {detectedAC ? ` and appears to be in ${detectedAC}` : ''}. Please check the selected AC.
+                  </Text>
+                </View>
+              ) : acVerification.status === 'inside' ? (
+                <Text style={styles.acVerifiedText}>✓ Your location is inside {selectedAC}</Text>
+              ) : detectedAC ? (
+                <Text style={styles.acVerifiedText}>Your location appears to be in {detectedAC}</Text>
+              ) : null
+            )}
+
+            {/* Age of the quota counts, shown on questions that decide a quota */}
+            {quotaDataAsOf && (quotaQuestionIds.has(currentQuestion.id) || (currentQuestion.id === 'fixed_respondent_gender' && genderQuotas)) && (
+              <Text style={styles.quotaDataAsOf}>
+                Quota data as of {new Date(quotaDataAsOf).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </Text>
+            )}
             
+            {/* Respondent falls into a full quota cell */}
+            {fullQuotaCells.length > 0 && (
+              <View style={styles.quotaWarning}>
+                <Text style={styles.quotaWarningText}>
+                  Quota full for this respondent: {fullQuotaCells.map(formatQuotaCell).join(', ')}
+                </Text>
+                <Button
+                  mode="contained"
+                  compact
+                  onPress={handleScreenOutPress}
+                  style={styles.screenOutButton}
+                >
+                  Screen Out
+                </Button>
+              </View>
+            )}
+
+            {/* Answer Validation Error */}
+            {answerErrors[currentQuestion.id] && (
+              <View style={styles.validationError}>
+                <Text style={styles.validationErrorText}>
+                  {answerErrors[currentQuestion.id]}
+                </Text>
+              </View>
+            )}
+
             {/* Target Audience Validation Error */}
             {targetAudienceErrors.has(currentQuestion.id) && (
               <View style={styles.validationError}>
                 <Text style={styles.validationErrorText}>
                   {targetAudienceErrors.get(currentQuestion.id)}
                 </Text>
+                <Button
+                  mode="contained"
+                  compact
+                  onPress={handleScreenOutPress}
+                  style={styles.screenOutButton}
+                >
+                  Screen Out
+                </Button>
               </View>
             )}
           </Card.Content>
@@ -1735,8 +2675,7 @@ export default function InterviewInterface({ navigation, route }: any) {
           mode="outlined"
           onPress={goToPreviousQuestion}
           disabled={currentQuestionIndex === 0 || 
-                   (((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
-                    !isRecording && audioPermission !== false)}
+                   (isCapi && !isRecording && audioPermission !== false)}
           style={styles.navButton}
         >
           Previous
@@ -1749,12 +2688,10 @@ export default function InterviewInterface({ navigation, route }: any) {
             style={[
               styles.completeButton,
               (targetAudienceErrors.size > 0 || 
-               (((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
-                !isRecording && audioPermission !== false)) && styles.disabledButton
+               (isCapi && !isRecording && audioPermission !== false)) && styles.disabledButton
             ]}
             disabled={targetAudienceErrors.size > 0 || 
-                     (((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
-                      !isRecording && audioPermission !== false)}
+                     (isCapi && !isRecording && audioPermission !== false)}
             loading={isLoading}
           >
             Complete Interview
@@ -1768,14 +2705,12 @@ export default function InterviewInterface({ navigation, route }: any) {
               ((targetAudienceErrors.has(visibleQuestions[currentQuestionIndex]?.id) || 
                (visibleQuestions[currentQuestionIndex]?.required && 
                 !responses[visibleQuestions[currentQuestionIndex]?.id])) ||
-               (((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
-                !isRecording && audioPermission !== false)) && styles.disabledButton
+               (isCapi && !isRecording && audioPermission !== false)) && styles.disabledButton
             ]}
             disabled={targetAudienceErrors.has(visibleQuestions[currentQuestionIndex]?.id) || 
                      (visibleQuestions[currentQuestionIndex]?.required && 
                       !responses[visibleQuestions[currentQuestionIndex]?.id]) ||
-                     (((survey.mode === 'capi') || (survey.mode === 'multi_mode' && survey.assignedMode === 'capi')) && 
-                      !isRecording && audioPermission !== false)}
+                     (isCapi && !isRecording && audioPermission !== false)}
           >
             Next
           </Button>
@@ -1892,6 +2827,15 @@ const styles = StyleSheet.create({
     color: '#374151',
     fontWeight: '500',
   },
+  syncIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 6,
+  },
   locationIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1997,6 +2941,21 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     lineHeight: 20,
   },
+  loopBanner: {
+    backgroundColor: '#f0fdf4',
+    borderColor: '#bbf7d0',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginBottom: 12,
+    alignSelf: 'flex-start',
+  },
+  loopBannerText: {
+    fontSize: 13,
+    color: '#166534',
+    fontWeight: '500',
+  },
   requiredText: {
     fontSize: 12,
     color: '#ef4444',
@@ -2021,6 +2980,28 @@ const styles = StyleSheet.create({
   optionsContainer: {
     marginTop: 8,
   },
+  matrixRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  matrixRowText: {
+    fontSize: 16,
+    color: '#374151',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  matrixColumns: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  matrixChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  matrixChipSelected: {
+    backgroundColor: '#dbeafe',
+  },
   optionItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2230,6 +3211,34 @@ const styles = StyleSheet.create({
     paddingVertical: 2,
     borderRadius: 4,
   },
+  quotaWarning: {
+    backgroundColor: '#fffbeb',
+    borderColor: '#fcd34d',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  quotaWarningText: {
+    fontSize: 14,
+    color: '#92400e',
+    fontWeight: '500',
+  },
+  acVerifiedText: {
+    fontSize: 13,
+    color: '#047857',
+    marginTop: 8,
+  },
+  quotaDataAsOf: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+  },
+  screenOutButton: {
+    marginTop: 10,
+    alignSelf: 'flex-start',
+    backgroundColor: '#dc2626',
+  },
   validationError: {
     marginTop: 12,
     padding: 12,
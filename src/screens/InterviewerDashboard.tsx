@@ -5,6 +5,7 @@ import {
   ScrollView,
   Dimensions,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import {
@@ -19,10 +20,16 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { StatusBar } from 'expo-status-bar';
 import { apiService } from '../services/api';
+import { offlineQueue } from '../services/offlineQueue';
+import { interviewDrafts, InterviewDraft } from '../services/interviewDrafts';
+import { recordingManifests } from '../services/recordingManifests';
 import { User, Survey } from '../types';
 
 const { width } = Dimensions.get('window');
 
+// Only offer to resume interrupted interviews once per app launch
+let hasCheckedForInterruptedInterviews = false;
+
 interface DashboardProps {
   navigation: any;
   user: User;
@@ -46,8 +53,68 @@ export default function InterviewerDashboard({ navigation, user, onLogout }: Das
 
   useEffect(() => {
     loadDashboardData();
+    checkForInterruptedInterview();
   }, []);
 
+  const checkForInterruptedInterview = async () => {
+    if (hasCheckedForInterruptedInterviews) return;
+    hasCheckedForInterruptedInterviews = true;
+
+    const drafts = await interviewDrafts.getDrafts();
+    offerInterruptedInterview(drafts, 0);
+  };
+
+  // Offer the interrupted interviews one at a time, most recent first. Those
+  // left when one is resumed are offered again on the next launch.
+  const offerInterruptedInterview = (drafts: InterviewDraft[], index: number) => {
+    const draft = drafts[index];
+    if (!draft) return;
+
+    const offerNext = () => offerInterruptedInterview(drafts, index + 1);
+    const savedAt = new Date(draft.savedAt);
+    const remaining = drafts.length - index - 1;
+    const remainingNote = remaining > 0
+      ? `\n\nThere ${remaining === 1 ? 'is 1 more interrupted interview' : `are ${remaining} more interrupted interviews`} after this one.`
+      : '';
+    Alert.alert(
+      drafts.length > 1 ? `Resume Interrupted Interview (${index + 1} of ${drafts.length})` : 'Resume Interrupted Interview',
+      `An interview for "${draft.survey?.surveyName}" was interrupted on ${savedAt.toLocaleDateString()} at ${savedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. Do you want to resume it?${remainingNote}`,
+      [
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => discardInterruptedInterview(draft).finally(offerNext),
+        },
+        {
+          text: 'Later',
+          style: 'cancel',
+          onPress: offerNext,
+        },
+        {
+          text: 'Resume',
+          onPress: () => {
+            navigation.navigate('InterviewInterface', {
+              survey: draft.survey,
+              isContinuing: true,
+              draftSessionId: draft.sessionId,
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  const discardInterruptedInterview = async (draft: InterviewDraft) => {
+    try {
+      if (!offlineQueue.isLocalSessionId(draft.sessionId)) {
+        await apiService.abandonInterview(draft.sessionId);
+      }
+    } finally {
+      await interviewDrafts.removeDraft(draft.sessionId);
+      await recordingManifests.removeManifest(draft.sessionId, true);
+    }
+  };
+
   const loadDashboardData = async () => {
     setIsLoading(true);
     try {
@@ -16,9 +16,12 @@ import {
   ActivityIndicator,
   Menu,
   Divider,
+  ProgressBar,
 } from 'react-native-paper';
 import { StatusBar } from 'expo-status-bar';
 import { apiService } from '../services/api';
+import { offlineQueue, OutboxItem } from '../services/offlineQueue';
+import { audioUploadService, AudioUploadRecord, summarizeAudioUploads } from '../services/audioUpload';
 import { SurveyResponse } from '../types';
 
 export default function MyInterviews({ navigation }: any) {
@@ -31,11 +34,26 @@ export default function MyInterviews({ navigation }: any) {
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [menuVisible, setMenuVisible] = useState(false);
+  const [queuedInterviews, setQueuedInterviews] = useState<OutboxItem[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [audioUploads, setAudioUploads] = useState<AudioUploadRecord[]>([]);
 
   useEffect(() => {
     loadInterviews();
   }, []);
 
+  // Keep the "waiting to sync" list in step with the outbox
+  useEffect(() => {
+    offlineQueue.getItems().then(setQueuedInterviews);
+    return offlineQueue.subscribe(setQueuedInterviews);
+  }, []);
+
+  // Live audio upload progress, per interview
+  useEffect(() => {
+    audioUploadService.getUploads().then(setAudioUploads);
+    return audioUploadService.subscribe(setAudioUploads);
+  }, []);
+
   useEffect(() => {
     filterInterviews();
   }, [interviews, searchQuery, selectedStatus]);
@@ -67,6 +85,24 @@ export default function MyInterviews({ navigation }: any) {
     setIsRefreshing(false);
   };
 
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await offlineQueue.sync();
+      if (result.offline) {
+        showSnackbar('Still offline. Queued interviews will sync automatically.');
+      } else if (result.synced.length > 0) {
+        showSnackbar(`${result.synced.length} interview${result.synced.length > 1 ? 's' : ''} synced`);
+        await loadInterviews();
+      }
+    } catch (error) {
+      console.error('Error syncing queued interviews:', error);
+      showSnackbar('Failed to sync queued interviews');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
   const filterInterviews = () => {
     let filtered = interviews;
 
@@ -97,7 +133,8 @@ export default function MyInterviews({ navigation }: any) {
       navigation.navigate('InterviewInterface', { 
         survey: interview.survey,
         responseId: interview._id,
-        isContinuing: true 
+        isContinuing: true,
+        draftSessionId: interview.sessionId
       });
     } else {
       // View completed interview details
@@ -144,6 +181,29 @@ export default function MyInterviews({ navigation }: any) {
     }
   };
 
+  const renderAudioUploadProgress = (records: AudioUploadRecord[]) => {
+    const summary = summarizeAudioUploads(records);
+    if (!summary || summary.status === 'completed') return null;
+
+    const percentage = Math.round(summary.progress * 100);
+    let label = `Uploading audio... ${percentage}%`;
+    if (summary.status === 'pending') label = `Audio pending - ${percentage}% uploaded, will retry`;
+    if (summary.status === 'failed') label = `Audio upload failed: ${summary.lastError || 'Unknown error'}`;
+
+    return (
+      <View style={styles.uploadProgressContainer}>
+        <Text style={[styles.uploadProgressText, summary.status === 'failed' && styles.uploadProgressError]}>
+          {label}
+        </Text>
+        <ProgressBar
+          progress={summary.progress}
+          color={summary.status === 'failed' ? '#dc2626' : '#2563eb'}
+          style={styles.uploadProgressBar}
+        />
+      </View>
+    );
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -234,6 +294,36 @@ export default function MyInterviews({ navigation }: any) {
           />
         }
       >
+        {queuedInterviews.length > 0 && (
+          <Card style={styles.queueCard}>
+            <Card.Content>
+              <View style={styles.queueHeader}>
+                <Text style={styles.queueTitle}>Waiting to Sync ({queuedInterviews.length})</Text>
+                <Button
+                  mode="contained"
+                  onPress={handleSyncNow}
+                  loading={isSyncing}
+                  disabled={isSyncing}
+                  style={styles.syncButton}
+                  compact
+                >
+                  Sync Now
+                </Button>
+              </View>
+              {queuedInterviews.map((item) => (
+                <View key={item.id} style={styles.queueItem}>
+                  <Text style={styles.queueItemTitle}>{item.surveyName}</Text>
+                  <Text style={styles.queueItemMeta}>
+                    {item.kind === 'screen_out' ? 'Screened out' : 'Completed'} {formatDate(item.createdAt)}
+                    {item.status === 'failed' && item.lastError ? ` • ${item.lastError}` : ''}
+                  </Text>
+                  {renderAudioUploadProgress(audioUploads.filter(upload => upload.localSessionId === item.localSessionId))}
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+
         {filteredInterviews.length > 0 ? (
           filteredInterviews.map((interview) => (
             <Card key={interview._id} style={styles.interviewCard}>
@@ -293,6 +383,9 @@ export default function MyInterviews({ navigation }: any) {
                   </View>
                 )}
 
+                {interview.sessionId &&
+                  renderAudioUploadProgress(audioUploads.filter(upload => upload.sessionId === interview.sessionId))}
+
                 <Divider style={styles.divider} />
 
                 <View style={styles.actionsContainer}>
@@ -417,6 +510,41 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 16,
   },
+  queueCard: {
+    marginBottom: 16,
+    backgroundColor: '#fffbeb',
+    borderColor: '#fcd34d',
+    borderWidth: 1,
+  },
+  queueHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  queueTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#92400e',
+  },
+  syncButton: {
+    backgroundColor: '#f59e0b',
+  },
+  queueItem: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#fde68a',
+  },
+  queueItemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  queueItemMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
   interviewCard: {
     marginBottom: 16,
     elevation: 3,
@@ -499,6 +627,21 @@ const styles = StyleSheet.create({
     color: '#059669',
     fontWeight: '600',
   },
+  uploadProgressContainer: {
+    marginTop: 8,
+  },
+  uploadProgressText: {
+    fontSize: 12,
+    color: '#2563eb',
+    marginBottom: 4,
+  },
+  uploadProgressError: {
+    color: '#dc2626',
+  },
+  uploadProgressBar: {
+    height: 4,
+    borderRadius: 2,
+  },
   divider: {
     marginVertical: 16,
   },
@@ -0,0 +1,113 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { offlineQueue } from '../offlineQueue';
+import { apiService } from '../api';
+import { audioUploadService } from '../audioUpload';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///documents/',
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../api', () => ({
+  apiService: {
+    startInterview: jest.fn(),
+    completeInterview: jest.fn(),
+    screenOutInterview: jest.fn(),
+    updateInterviewAudio: jest.fn(),
+  },
+}));
+jest.mock('../audioUpload', () => ({
+  audioUploadService: {
+    uploadFile: jest.fn(),
+    processPending: jest.fn(() => Promise.resolve()),
+    getUploads: jest.fn(() => Promise.resolve([])),
+  },
+}));
+jest.mock('../quotaSnapshots', () => ({
+  quotaSnapshots: { markSynced: jest.fn(() => Promise.resolve()) },
+}));
+
+const api = apiService as jest.Mocked<typeof apiService>;
+const uploads = audioUploadService as jest.Mocked<typeof audioUploadService>;
+const deleteAsync = FileSystem.deleteAsync as jest.Mock;
+
+const SESSION_DIRECTORY = 'file:///documents/recordings/session_1/';
+const SEGMENTS = [`${SESSION_DIRECTORY}segment_0.m4a`, `${SESSION_DIRECTORY}segment_1.m4a`];
+
+const enqueue = () => offlineQueue.enqueueInterview({
+  surveyId: 'survey_1',
+  surveyName: 'Survey',
+  sessionId: 'session_1',
+  audioUris: SEGMENTS,
+  payload: { responses: [], metadata: {} },
+});
+
+const uploadRecord = (status: string, audioUrl: string | null = null) =>
+  ({ id: 'session_1_1', status, audioUrl, size: audioUrl ? 100 : 0 }) as any;
+
+beforeEach(async () => {
+  [api.completeInterview, api.updateInterviewAudio, uploads.uploadFile, uploads.getUploads, deleteAsync]
+    .forEach(mock => (mock as jest.Mock).mockReset());
+  await AsyncStorage.clear();
+  uploads.getUploads.mockResolvedValue([uploadRecord('pending')]);
+  api.completeInterview.mockResolvedValue({ success: true, response: { responseId: 'response_1' } });
+  api.updateInterviewAudio.mockResolvedValue({ success: true, response: {} });
+});
+
+describe('recording cleanup after sync', () => {
+  it('deletes the recordings once every segment is uploaded', async () => {
+    uploads.uploadFile.mockResolvedValue({ success: true, audioUrl: 'https://audio/segment.m4a', size: 100 });
+    await enqueue();
+
+    const result = await offlineQueue.sync();
+
+    expect(result.synced).toHaveLength(1);
+    expect(deleteAsync).toHaveBeenCalledWith(SESSION_DIRECTORY, { idempotent: true });
+  });
+
+  it('keeps the recordings while a segment is still uploading', async () => {
+    uploads.uploadFile
+      .mockResolvedValueOnce({ success: true, audioUrl: 'https://audio/segment_0.m4a', size: 100 })
+      .mockResolvedValueOnce({ success: false, retryable: true, message: 'Timeout' });
+    await enqueue();
+
+    await offlineQueue.sync();
+
+    expect(api.completeInterview).toHaveBeenCalled();
+    expect(deleteAsync).not.toHaveBeenCalled();
+  });
+
+  it('deletes the recordings after the late upload has been reported', async () => {
+    uploads.uploadFile
+      .mockResolvedValueOnce({ success: true, audioUrl: 'https://audio/segment_0.m4a', size: 100 })
+      .mockResolvedValueOnce({ success: false, retryable: true, message: 'Timeout' });
+    await enqueue();
+    await offlineQueue.sync();
+
+    uploads.getUploads.mockResolvedValue([uploadRecord('completed', 'https://audio/segment_1.m4a')]);
+    await offlineQueue.sync();
+
+    expect(api.updateInterviewAudio).toHaveBeenCalledWith('session_1', expect.objectContaining({
+      audioStatus: 'uploaded',
+      segmentUrls: ['https://audio/segment_0.m4a', 'https://audio/segment_1.m4a'],
+    }));
+    expect(deleteAsync).toHaveBeenCalledWith(SESSION_DIRECTORY, { idempotent: true });
+  });
+
+  it('keeps the recordings when the report of a late upload fails to send', async () => {
+    uploads.uploadFile
+      .mockResolvedValueOnce({ success: true, audioUrl: 'https://audio/segment_0.m4a', size: 100 })
+      .mockResolvedValueOnce({ success: false, retryable: true, message: 'Timeout' });
+    await enqueue();
+    await offlineQueue.sync();
+
+    uploads.getUploads.mockResolvedValue([uploadRecord('completed', 'https://audio/segment_1.m4a')]);
+    api.updateInterviewAudio.mockResolvedValue({ success: false, isNetworkError: true, message: 'No connection' });
+    await offlineQueue.sync();
+
+    expect(deleteAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { quotaSnapshots } from '../quotaSnapshots';
+import { apiService } from '../api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../api', () => ({
+  apiService: {
+    getQuotaStatus: jest.fn(),
+    getGenderResponseCounts: jest.fn(),
+  },
+}));
+
+const api = apiService as jest.Mocked<typeof apiService>;
+
+const cellsResult = (achieved: number) => ({
+  success: true,
+  response: { cells: [{ id: 'cell_1', label: 'Female 18-24', target: 10, achieved }] },
+});
+const genderResult = (currentCount: number) => ({
+  success: true,
+  data: { genderQuotas: { Female: { quota: 10, currentCount, percentage: currentCount * 10, isFull: false } } },
+});
+const offline = { success: false, message: 'No connection' };
+
+// Fetch and sync times are compared, so every step happens a second later
+const tick = () => jest.setSystemTime(Date.now() + 1000);
+
+// One interview completed and synced, but not in any server count yet
+const completeAndSync = async () => {
+  tick();
+  await quotaSnapshots.recordLocalCompletion('survey_1', { sessionId: 'session_1', cellIds: ['cell_1'], gender: 'female' });
+  await quotaSnapshots.markSynced('survey_1', 'session_1');
+  tick();
+};
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  api.getQuotaStatus.mockReset();
+  api.getGenderResponseCounts.mockReset();
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('quotaSnapshots.refresh', () => {
+  it('drops a synced completion once both counts include it', async () => {
+    api.getQuotaStatus.mockResolvedValue(cellsResult(0) as any);
+    api.getGenderResponseCounts.mockResolvedValue(genderResult(0) as any);
+    await quotaSnapshots.refresh('survey_1');
+    await completeAndSync();
+
+    api.getQuotaStatus.mockResolvedValue(cellsResult(1) as any);
+    api.getGenderResponseCounts.mockResolvedValue(genderResult(1) as any);
+    const view = await quotaSnapshots.refresh('survey_1');
+
+    expect(view.cells[0].achieved).toBe(1);
+    expect(view.genderQuotas?.Female.currentCount).toBe(1);
+    expect((await quotaSnapshots.getSnapshot('survey_1')).pendingCompletions).toEqual([]);
+  });
+
+  it('keeps counting a completion locally where the refresh failed', async () => {
+    api.getQuotaStatus.mockResolvedValue(cellsResult(0) as any);
+    api.getGenderResponseCounts.mockResolvedValue(genderResult(0) as any);
+    await quotaSnapshots.refresh('survey_1');
+    await completeAndSync();
+
+    api.getQuotaStatus.mockResolvedValue(cellsResult(1) as any);
+    api.getGenderResponseCounts.mockResolvedValue(offline as any);
+    const view = await quotaSnapshots.refresh('survey_1');
+
+    expect(view.cells[0].achieved).toBe(1);
+    expect(view.genderQuotas?.Female.currentCount).toBe(1);
+    expect((await quotaSnapshots.getSnapshot('survey_1')).pendingCompletions).toHaveLength(1);
+  });
+
+  it('reports the older of the two fetch times', async () => {
+    api.getQuotaStatus.mockResolvedValue(cellsResult(0) as any);
+    api.getGenderResponseCounts.mockResolvedValue(genderResult(0) as any);
+    const first = await quotaSnapshots.refresh('survey_1');
+    tick();
+
+    api.getGenderResponseCounts.mockResolvedValue(offline as any);
+    const second = await quotaSnapshots.refresh('survey_1');
+
+    expect(second.fetchedAt).toBe(first.fetchedAt);
+  });
+});
@@ -0,0 +1,55 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api';
+import { ACBoundary } from '../logic/geofence';
+
+const BOUNDARIES_KEY_PREFIX = 'acBoundaries:';
+const BOUNDARIES_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Boundaries rarely change
+
+interface CachedBoundaries {
+  surveyId: string;
+  boundaries: ACBoundary[];
+  fetchedAt: string;
+}
+
+class ACBoundaryService {
+  private getKey(surveyId: string) {
+    return `${BOUNDARIES_KEY_PREFIX}${surveyId}`;
+  }
+
+  private async getCached(surveyId: string): Promise<CachedBoundaries | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getKey(surveyId));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error reading AC boundaries:', error);
+      return null;
+    }
+  }
+
+  // Boundaries for a survey's ACs. Polygons can be large, so they are only
+  // downloaded again once the cached copy is a week old; offline the cached
+  // copy is used whatever its age.
+  async getBoundaries(surveyId: string): Promise<ACBoundary[]> {
+    const cached = await this.getCached(surveyId);
+    if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < BOUNDARIES_MAX_AGE_MS) {
+      return cached.boundaries;
+    }
+
+    const result = await apiService.getACBoundaries(surveyId);
+    if (!result.success) {
+      return cached?.boundaries || [];
+    }
+
+    const boundaries: ACBoundary[] = result.response?.boundaries || [];
+    try {
+      const stored: CachedBoundaries = { surveyId, boundaries, fetchedAt: new Date().toISOString() };
+      await AsyncStorage.setItem(this.getKey(surveyId), JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving AC boundaries:', error);
+    }
+    console.log(`🗺️ Cached ${boundaries.length} AC boundaries for survey`, surveyId);
+    return boundaries;
+  }
+}
+
+export const acBoundaries = new ACBoundaryService();
@@ -0,0 +1,68 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { apiService } from './api';
+import { AdminArea } from '../logic/adminAreas';
+
+// Village polygons for a whole region are too large for AsyncStorage, so the
+// dataset is kept as a file
+const BOUNDARIES_DIRECTORY = `${FileSystem.documentDirectory}adminBoundaries/`;
+const BOUNDARIES_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CachedAdminBoundaries {
+  surveyId: string;
+  areas: AdminArea[];
+  fetchedAt: string;
+}
+
+class AdminBoundaryService {
+  // Parsed datasets, so lookups during an interview do not re-read the file
+  private loaded = new Map<string, AdminArea[]>();
+
+  private getPath(surveyId: string) {
+    return `${BOUNDARIES_DIRECTORY}${surveyId}.json`;
+  }
+
+  private async getCached(surveyId: string): Promise<CachedAdminBoundaries | null> {
+    try {
+      const path = this.getPath(surveyId);
+      const fileInfo = await FileSystem.getInfoAsync(path);
+      if (!fileInfo.exists) return null;
+      return JSON.parse(await FileSystem.readAsStringAsync(path));
+    } catch (error) {
+      console.error('Error reading admin boundaries:', error);
+      return null;
+    }
+  }
+
+  // Admin areas for a survey. Downloaded again once the copy on the device is
+  // a month old; offline the copy is used whatever its age, and a survey with
+  // no copy gets no areas.
+  async getAreas(surveyId: string): Promise<AdminArea[]> {
+    const loaded = this.loaded.get(surveyId);
+    if (loaded) return loaded;
+
+    const cached = await this.getCached(surveyId);
+    if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < BOUNDARIES_MAX_AGE_MS) {
+      this.loaded.set(surveyId, cached.areas);
+      return cached.areas;
+    }
+
+    const result = await apiService.getAdminBoundaries(surveyId);
+    if (!result.success) {
+      return cached?.areas || [];
+    }
+
+    const areas: AdminArea[] = result.response?.areas || [];
+    try {
+      const stored: CachedAdminBoundaries = { surveyId, areas, fetchedAt: new Date().toISOString() };
+      await FileSystem.makeDirectoryAsync(BOUNDARIES_DIRECTORY, { intermediates: true });
+      await FileSystem.writeAsStringAsync(this.getPath(surveyId), JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving admin boundaries:', error);
+    }
+    this.loaded.set(surveyId, areas);
+    console.log(`🗺️ Cached ${areas.length} admin areas for survey`, surveyId);
+    return areas;
+  }
+}
+
+export const adminBoundaries = new AdminBoundaryService();
@@ -179,6 +179,7 @@ class ApiService {
       return {
         success: false,
         message: error.response?.data?.message || 'Failed to start interview',
+        isNetworkError: !error.response,
       };
     }
   }
@@ -219,13 +220,17 @@ class ApiService {
     }
   }
 
-  async saveInterviewProgress(responseId: string, responses: Record<string, any>) {
+  async saveInterviewProgress(
+    responseId: string,
+    responses: Record<string, any>,
+    progress?: { currentQuestionIndex?: number; selectedAC?: string | null; totalTimeSpent?: number; othersTextInputs?: Record<string, string> }
+  ) {
     try {
       const headers = await this.getHeaders();
       const response = await axios.put(
         `${this.baseURL}/api/survey-responses/${responseId}/progress`,
-        { responses },
-        { headers }
+        { responses, ...progress },
+        { headers, timeout: 15000 }
       );
       return { success: true, response: response.data };
     } catch (error: any) {
@@ -233,6 +238,7 @@ class ApiService {
       return {
         success: false,
         message: error.response?.data?.message || 'Failed to save progress',
+        isNetworkError: !error.response,
       };
     }
   }
@@ -276,6 +282,49 @@ class ApiService {
     }
   }
 
+  // End an interview early because the respondent was screened out. The
+  // record is lightweight - answers given so far, the reason and the question
+  // that triggered it - so that contacts count towards field productivity.
+  async screenOutInterview(sessionId: string, data: any) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/survey-responses/session/${sessionId}/screen-out`,
+        data,
+        { headers }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Screen out interview error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to submit screen-out',
+        isNetworkError: !error.response,
+      };
+    }
+  }
+
+  // Fill in the recording of an interview that was submitted while its audio
+  // was still uploading
+  async updateInterviewAudio(sessionId: string, audioRecording: any) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.patch(
+        `${this.baseURL}/api/survey-responses/session/${sessionId}/audio`,
+        { audioRecording },
+        { headers, timeout: 15000 }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Update interview audio error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to update interview audio',
+        isNetworkError: !error.response,
+      };
+    }
+  }
+
   // Abandon interview
   async abandonInterview(sessionId: string) {
     try {
@@ -300,18 +349,6 @@ class ApiService {
     try {
       console.log('Uploading audio file:', { audioUri, sessionId, surveyId });
       
-      // Check if this is a mock URI (for testing)
-      if (audioUri.startsWith('mock://')) {
-        console.log('Mock audio URI detected, skipping upload');
-        return { 
-          success: true, 
-          response: { 
-            audioUrl: `mock://audio_${sessionId}_${Date.now()}.webm`,
-            message: 'Mock audio file - no actual upload performed'
-          } 
-        };
-      }
-      
       const formData = new FormData();
       
       // Create file object from URI - match web app format exactly
@@ -376,21 +413,110 @@ class ApiService {
     } catch (error: any) {
       console.error('Upload audio error:', error);
       
-      // If it's a network error, return a mock success for testing
-      if (error.message.includes('Network request failed') || error.name === 'AbortError') {
-        console.log('Network error detected, returning mock success for testing');
-        return { 
-          success: true, 
-          response: { 
-            audioUrl: `mock://audio_${sessionId}_${Date.now()}.webm`,
-            message: 'Network error - using mock audio URL for testing'
-          } 
-        };
-      }
-      
+      // Never report success for an upload that did not happen - the caller keeps the file and retries
+      const isNetworkError = error.message?.includes('Network request failed') || error.name === 'AbortError';
+      return {
+        success: false,
+        message: isNetworkError ? 'Network error while uploading audio' : (error.message || 'Failed to upload audio'),
+        isNetworkError,
+      };
+    }
+  }
+
+  // Chunked audio upload - create (or look up) an upload session for one recording
+  async createAudioUploadSession(params: {
+    sessionId: string;
+    surveyId: string;
+    fileName: string;
+    mimeType: string;
+    totalBytes: number;
+    chunkSize: number;
+    totalChunks: number;
+    sha256: string;
+  }) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/survey-responses/audio-uploads`,
+        params,
+        { headers, timeout: 30000 }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Create audio upload session error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to create audio upload session',
+        isNetworkError: !error.response,
+        status: error.response?.status,
+      };
+    }
+  }
+
+  // Chunked audio upload - which chunks the server has already acknowledged
+  async getAudioUploadSession(uploadId: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(
+        `${this.baseURL}/api/survey-responses/audio-uploads/${uploadId}`,
+        { headers, timeout: 30000 }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Get audio upload session error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to get audio upload session',
+        isNetworkError: !error.response,
+        status: error.response?.status,
+      };
+    }
+  }
+
+  // Chunked audio upload - send one base64 encoded byte range
+  async uploadAudioChunk(uploadId: string, chunk: { chunkIndex: number; start: number; end: number; totalBytes: number; data: string }) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.put(
+        `${this.baseURL}/api/survey-responses/audio-uploads/${uploadId}/chunks/${chunk.chunkIndex}`,
+        chunk,
+        {
+          headers: {
+            ...headers,
+            'Content-Range': `bytes ${chunk.start}-${chunk.end - 1}/${chunk.totalBytes}`,
+          },
+          timeout: 60000,
+        }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Upload audio chunk error:', error);
       return {
         success: false,
-        message: error.message || 'Failed to upload audio',
+        message: error.response?.data?.message || 'Failed to upload audio chunk',
+        isNetworkError: !error.response,
+        status: error.response?.status,
+      };
+    }
+  }
+
+  // Chunked audio upload - assemble the chunks and verify the checksum on the server
+  async completeAudioUpload(uploadId: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.post(
+        `${this.baseURL}/api/survey-responses/audio-uploads/${uploadId}/complete`,
+        {},
+        { headers, timeout: 60000 }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Complete audio upload error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to complete audio upload',
+        isNetworkError: !error.response,
+        status: error.response?.status,
       };
     }
   }
@@ -410,6 +536,7 @@ class ApiService {
       return {
         success: false,
         message: error.response?.data?.message || 'Failed to complete interview',
+        isNetworkError: !error.response,
       };
     }
   }
@@ -493,6 +620,64 @@ class ApiService {
     }
   }
 
+  // Get every quota cell of a survey with its target and achieved count
+  async getQuotaStatus(surveyId: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(
+        `${this.baseURL}/api/survey-responses/survey/${surveyId}/quotas`,
+        { headers, timeout: 15000 }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Get quota status error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to get quota status',
+        isNetworkError: !error.response,
+      };
+    }
+  }
+
+  // Boundary polygons of the ACs assigned to a survey, for GPS verification
+  async getACBoundaries(surveyId: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(
+        `${this.baseURL}/api/surveys/${surveyId}/ac-boundaries`,
+        { headers, timeout: 30000 }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Get AC boundaries error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to get AC boundaries',
+        isNetworkError: !error.response,
+      };
+    }
+  }
+
+  // State, district, AC and village boundaries covering a survey's area, for
+  // offline reverse geocoding
+  async getAdminBoundaries(surveyId: string) {
+    try {
+      const headers = await this.getHeaders();
+      const response = await axios.get(
+        `${this.baseURL}/api/surveys/${surveyId}/admin-boundaries`,
+        { headers, timeout: 60000 }
+      );
+      return { success: true, response: response.data.data };
+    } catch (error: any) {
+      console.error('Get admin boundaries error:', error);
+      return {
+        success: false,
+        message: error.response?.data?.message || 'Failed to get admin boundaries',
+        isNetworkError: !error.response,
+      };
+    }
+  }
+
   // Get gender response counts for quota management
   async getGenderResponseCounts(surveyId: string) {
     try {
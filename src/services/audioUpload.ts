@@ -0,0 +1,342 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { apiService } from './api';
+import { Sha256, base64ToBytes } from '../utils/sha256';
+
+const AUDIO_UPLOADS_STORAGE_KEY = 'audioUploads';
+const CHUNK_SIZE_BYTES = 256 * 1024; // Small enough to get through on 2G
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type AudioUploadStatus = 'pending' | 'uploading' | 'completed' | 'failed';
+
+// Persisted state of one resumable upload. Acknowledged chunks survive app
+// restarts, so an interrupted upload continues from the first missing chunk.
+export interface AudioUploadRecord {
+  id: string;
+  localSessionId: string;
+  sessionId: string;
+  surveyId: string;
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  totalBytes: number;
+  chunkSize: number;
+  totalChunks: number;
+  sha256: string | null;
+  uploadId: string | null;
+  acknowledgedChunks: number[];
+  status: AudioUploadStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  audioUrl: string | null;
+  size: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AudioUploadRequest {
+  id: string;
+  localSessionId: string;
+  sessionId: string;
+  surveyId: string;
+  uri: string;
+}
+
+export interface AudioUploadResult {
+  success: boolean;
+  audioUrl?: string | null;
+  size?: number;
+  retryable?: boolean;
+  message?: string;
+}
+
+export interface AudioUploadSummary {
+  progress: number;
+  status: AudioUploadStatus;
+  lastError: string | null;
+}
+
+type AudioUploadListener = (records: AudioUploadRecord[]) => void;
+
+const getAudioFileType = (uri: string) => {
+  const uriLower = uri.toLowerCase();
+  if (uriLower.includes('.wav')) return { mimeType: 'audio/wav', extension: '.wav' };
+  if (uriLower.includes('.webm')) return { mimeType: 'audio/webm', extension: '.webm' };
+  return { mimeType: 'audio/m4a', extension: '.m4a' };
+};
+
+// Combined progress of all recordings belonging to one interview
+export const summarizeAudioUploads = (records: AudioUploadRecord[]): AudioUploadSummary | null => {
+  if (records.length === 0) return null;
+
+  const totalBytes = records.reduce((total, record) => total + record.totalBytes, 0);
+  const uploadedBytes = records.reduce((total, record) => {
+    if (record.status === 'completed') return total + record.totalBytes;
+    return total + Math.min(record.acknowledgedChunks.length * record.chunkSize, record.totalBytes);
+  }, 0);
+
+  let status: AudioUploadStatus = 'completed';
+  if (records.some(record => record.status === 'failed')) status = 'failed';
+  else if (records.some(record => record.status === 'uploading')) status = 'uploading';
+  else if (records.some(record => record.status === 'pending')) status = 'pending';
+
+  return {
+    progress: totalBytes > 0 ? uploadedBytes / totalBytes : 0,
+    status,
+    lastError: records.find(record => record.lastError)?.lastError || null,
+  };
+};
+
+class AudioUploadService {
+  private listeners: AudioUploadListener[] = [];
+  private activeUploads = new Map<string, Promise<AudioUploadResult>>();
+
+  async getUploads(): Promise<AudioUploadRecord[]> {
+    try {
+      const stored = await AsyncStorage.getItem(AUDIO_UPLOADS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading audio uploads:', error);
+      return [];
+    }
+  }
+
+  private async saveUploads(records: AudioUploadRecord[]) {
+    const cutoff = Date.now() - COMPLETED_RETENTION_MS;
+    const retained = records.filter(record =>
+      record.status !== 'completed' || new Date(record.updatedAt).getTime() > cutoff
+    );
+    await AsyncStorage.setItem(AUDIO_UPLOADS_STORAGE_KEY, JSON.stringify(retained));
+    this.listeners.forEach(listener => listener(retained));
+  }
+
+  private async updateUpload(id: string, changes: Partial<AudioUploadRecord>): Promise<AudioUploadRecord> {
+    const records = await this.getUploads();
+    const index = records.findIndex(record => record.id === id);
+    if (index === -1) {
+      throw new Error(`Audio upload ${id} not found`);
+    }
+
+    records[index] = { ...records[index], ...changes, updatedAt: new Date().toISOString() };
+    await this.saveUploads(records);
+    return records[index];
+  }
+
+  subscribe(listener: AudioUploadListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Upload a recording, resuming any earlier attempt for the same id. Failed
+  // attempts are retried with exponential backoff; until the backoff has passed
+  // this returns a retryable failure without touching the network.
+  async uploadFile(request: AudioUploadRequest): Promise<AudioUploadResult> {
+    const active = this.activeUploads.get(request.id);
+    if (active) return active;
+
+    const upload = this.startOrResume(request);
+    this.activeUploads.set(request.id, upload);
+    try {
+      return await upload;
+    } finally {
+      this.activeUploads.delete(request.id);
+    }
+  }
+
+  // Retry every unfinished upload whose backoff has passed. Uploads outlive the
+  // interview submission, so this runs after every outbox sync.
+  async processPending() {
+    const records = await this.getUploads();
+    for (const record of records) {
+      if (record.status === 'completed' || record.status === 'failed') continue;
+
+      await this.uploadFile({
+        id: record.id,
+        localSessionId: record.localSessionId,
+        sessionId: record.sessionId,
+        surveyId: record.surveyId,
+        uri: record.uri,
+      });
+    }
+  }
+
+  private async startOrResume(request: AudioUploadRequest): Promise<AudioUploadResult> {
+    const records = await this.getUploads();
+    let record = records.find(existing => existing.id === request.id);
+
+    if (!record) {
+      const fileInfo = await FileSystem.getInfoAsync(request.uri);
+      if (!fileInfo.exists) {
+        console.error('Audio file does not exist at path:', request.uri);
+        return { success: false, retryable: false, message: 'Audio file not found' };
+      }
+
+      const { mimeType, extension } = getAudioFileType(request.uri);
+      const now = new Date().toISOString();
+      record = {
+        ...request,
+        fileName: `interview_${request.sessionId}_${Date.now()}${extension}`,
+        mimeType,
+        totalBytes: fileInfo.size,
+        chunkSize: CHUNK_SIZE_BYTES,
+        totalChunks: Math.max(1, Math.ceil(fileInfo.size / CHUNK_SIZE_BYTES)),
+        sha256: null,
+        uploadId: null,
+        acknowledgedChunks: [],
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: null,
+        lastError: null,
+        audioUrl: null,
+        size: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.saveUploads([...records, record]);
+    }
+
+    if (record.status === 'completed') {
+      return { success: true, audioUrl: record.audioUrl, size: record.size };
+    }
+    if (!(await FileSystem.getInfoAsync(record.uri)).exists) {
+      console.error('Audio file disappeared before upload finished:', record.uri);
+      await this.updateUpload(record.id, { status: 'failed', lastError: 'Audio file not found' });
+      return { success: false, retryable: false, message: 'Audio file not found' };
+    }
+    if (record.nextAttemptAt && new Date(record.nextAttemptAt).getTime() > Date.now()) {
+      return { success: false, retryable: true, message: record.lastError || 'Waiting to retry audio upload' };
+    }
+
+    return this.runUpload(await this.updateUpload(record.id, { sessionId: request.sessionId, status: 'uploading' }));
+  }
+
+  private async runUpload(record: AudioUploadRecord): Promise<AudioUploadResult> {
+    try {
+      if (!record.sha256) {
+        record = await this.updateUpload(record.id, { sha256: await this.computeChecksum(record) });
+      }
+
+      // Open an upload session, or ask the server which chunks it already has
+      if (record.uploadId) {
+        const sessionResult = await apiService.getAudioUploadSession(record.uploadId);
+        if (sessionResult.success) {
+          record = await this.updateUpload(record.id, {
+            acknowledgedChunks: sessionResult.response?.receivedChunks || record.acknowledgedChunks,
+          });
+        } else if (sessionResult.status === 404) {
+          record = await this.updateUpload(record.id, { uploadId: null, acknowledgedChunks: [] });
+        } else {
+          return this.scheduleRetry(record, sessionResult.message);
+        }
+      }
+      if (!record.uploadId) {
+        const createResult = await apiService.createAudioUploadSession({
+          sessionId: record.sessionId,
+          surveyId: record.surveyId,
+          fileName: record.fileName,
+          mimeType: record.mimeType,
+          totalBytes: record.totalBytes,
+          chunkSize: record.chunkSize,
+          totalChunks: record.totalChunks,
+          sha256: record.sha256 as string,
+        });
+        if (!createResult.success) {
+          return this.scheduleRetry(record, createResult.message);
+        }
+        record = await this.updateUpload(record.id, {
+          uploadId: createResult.response.uploadId,
+          acknowledgedChunks: createResult.response.receivedChunks || [],
+        });
+      }
+      const uploadId = record.uploadId as string;
+
+      // Send every chunk the server has not acknowledged yet
+      for (let chunkIndex = 0; chunkIndex < record.totalChunks; chunkIndex++) {
+        if (record.acknowledgedChunks.includes(chunkIndex)) continue;
+
+        const start = chunkIndex * record.chunkSize;
+        const end = Math.min(start + record.chunkSize, record.totalBytes);
+        const data = await FileSystem.readAsStringAsync(record.uri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position: start,
+          length: end - start,
+        });
+
+        const chunkResult = await apiService.uploadAudioChunk(uploadId, {
+          chunkIndex,
+          start,
+          end,
+          totalBytes: record.totalBytes,
+          data,
+        });
+        if (!chunkResult.success) {
+          return this.scheduleRetry(record, chunkResult.message);
+        }
+
+        // Progress resets the backoff
+        record = await this.updateUpload(record.id, {
+          acknowledgedChunks: [...record.acknowledgedChunks, chunkIndex],
+          attempts: 0,
+          lastError: null,
+        });
+      }
+
+      const completeResult = await apiService.completeAudioUpload(uploadId);
+      if (!completeResult.success) {
+        // A checksum mismatch means the assembled file is corrupt - start over
+        if (completeResult.status === 409 || completeResult.status === 422) {
+          record = await this.updateUpload(record.id, { uploadId: null, acknowledgedChunks: [], sha256: null });
+        }
+        return this.scheduleRetry(record, completeResult.message);
+      }
+
+      record = await this.updateUpload(record.id, {
+        status: 'completed',
+        audioUrl: completeResult.response.audioUrl,
+        size: completeResult.response.size || record.totalBytes,
+        nextAttemptAt: null,
+        lastError: null,
+      });
+      console.log('Audio upload complete:', record.id, record.audioUrl);
+      return { success: true, audioUrl: record.audioUrl, size: record.size };
+    } catch (error: any) {
+      console.error('Audio upload error:', error);
+      return this.scheduleRetry(record, error.message);
+    }
+  }
+
+  private async computeChecksum(record: AudioUploadRecord): Promise<string> {
+    const hash = new Sha256();
+    for (let start = 0; start < record.totalBytes; start += record.chunkSize) {
+      const data = await FileSystem.readAsStringAsync(record.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: start,
+        length: Math.min(record.chunkSize, record.totalBytes - start),
+      });
+      hash.update(base64ToBytes(data));
+    }
+    return hash.digest();
+  }
+
+  private async scheduleRetry(record: AudioUploadRecord, message?: string): Promise<AudioUploadResult> {
+    const attempts = record.attempts + 1;
+    const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+    const lastError = message || 'Audio upload failed';
+
+    await this.updateUpload(record.id, {
+      status: 'pending',
+      attempts,
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+      lastError,
+    });
+    console.log(`Audio upload ${record.id} will retry in ${Math.round(delay / 1000)}s:`, lastError);
+    return { success: false, retryable: true, message: lastError };
+  }
+}
+
+export const audioUploadService = new AudioUploadService();
@@ -0,0 +1,183 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { adminBoundaries } from './adminBoundaries';
+import { acBoundaries } from './acBoundaries';
+import { AdminArea, formatAdminAddress, lookupAdminAreas, roundCoordinateKey } from '../logic/adminAreas';
+
+const GEOCODE_KEY_PREFIX = 'geocode:';
+const NOMINATIM_TIMEOUT_MS = 8000; // Lookups sit on the interview-start path
+
+export type AddressSource = 'offline' | 'network' | 'coordinates';
+
+export interface GeocodedAddress {
+  formatted: string;
+  street: string;
+  city: string;
+  state: string;
+  country: string;
+  postalCode: string;
+  district?: string;
+  ac?: string;
+  village?: string;
+  source: AddressSource;
+}
+
+// Turns a position into an address. Returns null when it has no answer, so
+// the next geocoder can be tried.
+export interface Geocoder {
+  reverseGeocode(latitude: number, longitude: number): Promise<GeocodedAddress | null>;
+}
+
+// Looks the position up in the survey's admin boundary dataset and its AC
+// boundaries. Works offline once both have been downloaded.
+export class OfflineGeocoder implements Geocoder {
+  constructor(private surveyId: string) {}
+
+  async reverseGeocode(latitude: number, longitude: number): Promise<GeocodedAddress | null> {
+    const [areas, boundaries] = await Promise.all([
+      adminBoundaries.getAreas(this.surveyId),
+      acBoundaries.getBoundaries(this.surveyId),
+    ]);
+    const acAreas: AdminArea[] = boundaries.map(boundary => ({
+      level: 'ac',
+      name: boundary.acName,
+      code: boundary.acCode,
+      geometry: boundary.geometry,
+    }));
+
+    const lookup = lookupAdminAreas([...areas, ...acAreas], { latitude, longitude });
+    if (Object.keys(lookup).length === 0) return null;
+
+    return {
+      formatted: formatAdminAddress(lookup),
+      street: '',
+      city: lookup.village || lookup.district || '',
+      state: lookup.state || '',
+      country: '',
+      postalCode: '',
+      district: lookup.district,
+      ac: lookup.ac,
+      village: lookup.village,
+      source: 'offline',
+    };
+  }
+}
+
+// The platform geocoder, then Nominatim. Both are third-party services, so
+// only the rounded position is sent and results are cached per rounded
+// position.
+export class NetworkGeocoder implements Geocoder {
+  async reverseGeocode(latitude: number, longitude: number): Promise<GeocodedAddress | null> {
+    const key = roundCoordinateKey(latitude, longitude);
+    const cached = await this.getCached(key);
+    if (cached) return cached;
+
+    const [roundedLatitude, roundedLongitude] = key.split(',').map(Number);
+    const address = await this.reverseGeocodePlatform(roundedLatitude, roundedLongitude)
+      || await this.reverseGeocodeNominatim(roundedLatitude, roundedLongitude);
+    if (address) {
+      await this.setCached(key, address);
+    }
+    return address;
+  }
+
+  private async getCached(key: string): Promise<GeocodedAddress | null> {
+    try {
+      const stored = await AsyncStorage.getItem(`${GEOCODE_KEY_PREFIX}${key}`);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error reading cached address:', error);
+      return null;
+    }
+  }
+
+  private async setCached(key: string, address: GeocodedAddress) {
+    try {
+      await AsyncStorage.setItem(`${GEOCODE_KEY_PREFIX}${key}`, JSON.stringify(address));
+    } catch (error) {
+      console.error('Error caching address:', error);
+    }
+  }
+
+  private async reverseGeocodePlatform(latitude: number, longitude: number): Promise<GeocodedAddress | null> {
+    try {
+      const addresses = await Location.reverseGeocodeAsync({ latitude, longitude });
+      if (addresses.length === 0) return null;
+
+      const address = addresses[0];
+      return {
+        formatted: `${address.street || ''} ${address.streetNumber || ''}, ${address.city || ''}, ${address.region || ''}, ${address.country || ''}`.trim(),
+        street: `${address.street || ''} ${address.streetNumber || ''}`.trim(),
+        city: address.city || '',
+        state: address.region || '',
+        country: address.country || '',
+        postalCode: address.postalCode || '',
+        district: address.subregion || undefined,
+        source: 'network',
+      };
+    } catch (error) {
+      console.warn('Platform reverse geocoding failed, trying Nominatim:', error);
+      return null;
+    }
+  }
+
+  private async reverseGeocodeNominatim(latitude: number, longitude: number): Promise<GeocodedAddress | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), NOMINATIM_TIMEOUT_MS);
+    try {
+      const response = await fetch(
+        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&addressdetails=1`,
+        { signal: controller.signal }
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (!data || !data.display_name) {
+        throw new Error('No address data received from Nominatim');
+      }
+
+      return {
+        formatted: data.display_name,
+        street: data.address?.road || data.address?.house_number || '',
+        city: data.address?.city || data.address?.town || data.address?.village || '',
+        state: data.address?.state || data.address?.county || '',
+        country: data.address?.country || '',
+        postalCode: data.address?.postcode || '',
+        district: data.address?.state_district || undefined,
+        village: data.address?.village || undefined,
+        source: 'network',
+      };
+    } catch (error) {
+      console.error('Nominatim reverse geocoding failed:', error);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+// Tries each geocoder in turn
+export class GeocoderChain implements Geocoder {
+  constructor(private geocoders: Geocoder[]) {}
+
+  async reverseGeocode(latitude: number, longitude: number): Promise<GeocodedAddress | null> {
+    for (const geocoder of this.geocoders) {
+      const address = await geocoder.reverseGeocode(latitude, longitude);
+      if (address) return address;
+    }
+    return null;
+  }
+}
+
+// Geocoding for a survey: the offline boundaries first. Network geocoders are
+// only asked when the survey allows sending positions off the device and the
+// boundaries have no answer.
+export const createGeocoder = (survey: { _id: string; geocoding?: { allowNetwork?: boolean } }): Geocoder => {
+  const offline = new OfflineGeocoder(survey._id);
+  return survey.geocoding?.allowNetwork
+    ? new GeocoderChain([offline, new NetworkGeocoder()])
+    : offline;
+};
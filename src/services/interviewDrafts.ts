@@ -0,0 +1,108 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Survey } from '../types';
+import { QualityMetricsState } from '../logic/qualityMetrics';
+import { QuestionTimecodes } from '../logic/audioTimecodes';
+import { TrailPoint } from '../logic/locationTrail';
+
+const DRAFT_KEY_PREFIX = 'interviewDraft:';
+const DRAFT_SURVEY_KEY_PREFIX = 'interviewDraftSurvey:';
+
+// Everything needed to put an interrupted interview back on screen exactly
+// where it was left: same question, same answers, same shuffled option order.
+export interface InterviewDraft {
+  sessionId: string;
+  survey: Survey;
+  sessionData: any;
+  responses: Record<string, any>;
+  othersTextInputs: Record<string, string>;
+  shuffledOptions: Record<string, any[]>;
+  currentQuestionIndex: number;
+  selectedAC: string | null;
+  duration: number;
+  recordingSegments: string[];
+  locationData: any;
+  qualityMetrics?: QualityMetricsState; // Missing on drafts saved before quality metrics were collected
+  questionTimecodes?: QuestionTimecodes;
+  locationTrail?: TrailPoint[];
+  savedAt: string;
+}
+
+// The survey does not change during an interview, so it is stored once under
+// its own key instead of with every save. Drafts saved before that still
+// carry it inline.
+type StoredDraft = Omit<InterviewDraft, 'survey'> & { survey?: Survey };
+
+class InterviewDraftService {
+  private savedSurveys = new Set<string>();
+
+  private getKey(sessionId: string) {
+    return `${DRAFT_KEY_PREFIX}${sessionId}`;
+  }
+
+  private getSurveyKey(sessionId: string) {
+    return `${DRAFT_SURVEY_KEY_PREFIX}${sessionId}`;
+  }
+
+  async saveDraft(draft: Omit<InterviewDraft, 'savedAt'>) {
+    try {
+      const { survey, ...state } = draft;
+      if (!this.savedSurveys.has(draft.sessionId)) {
+        await AsyncStorage.setItem(this.getSurveyKey(draft.sessionId), JSON.stringify(survey));
+        this.savedSurveys.add(draft.sessionId);
+      }
+      const stored: StoredDraft = { ...state, savedAt: new Date().toISOString() };
+      await AsyncStorage.setItem(this.getKey(draft.sessionId), JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving interview draft:', error);
+    }
+  }
+
+  private withSurvey(stored: StoredDraft, survey: string | null | undefined): InterviewDraft {
+    return { ...stored, survey: stored.survey || JSON.parse(survey as string) };
+  }
+
+  async getDraft(sessionId: string): Promise<InterviewDraft | null> {
+    try {
+      const [[, stored], [, survey]] = await AsyncStorage.multiGet([this.getKey(sessionId), this.getSurveyKey(sessionId)]);
+      return stored ? this.withSurvey(JSON.parse(stored), survey) : null;
+    } catch (error) {
+      console.error('Error reading interview draft:', error);
+      return null;
+    }
+  }
+
+  // All drafts on the device, most recently saved first
+  async getDrafts(): Promise<InterviewDraft[]> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const draftKeys = keys.filter(key => key.startsWith(DRAFT_KEY_PREFIX));
+      if (draftKeys.length === 0) return [];
+
+      const entries = await AsyncStorage.multiGet(draftKeys);
+      const surveys = new Map(await AsyncStorage.multiGet(
+        keys.filter(key => key.startsWith(DRAFT_SURVEY_KEY_PREFIX))
+      ));
+      return entries
+        .filter(([, value]) => !!value)
+        .map(([, value]) => {
+          const stored: StoredDraft = JSON.parse(value as string);
+          return this.withSurvey(stored, surveys.get(this.getSurveyKey(stored.sessionId)));
+        })
+        .sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime());
+    } catch (error) {
+      console.error('Error reading interview drafts:', error);
+      return [];
+    }
+  }
+
+  async removeDraft(sessionId: string) {
+    try {
+      await AsyncStorage.multiRemove([this.getKey(sessionId), this.getSurveyKey(sessionId)]);
+      this.savedSurveys.delete(sessionId);
+    } catch (error) {
+      console.error('Error removing interview draft:', error);
+    }
+  }
+}
+
+export const interviewDrafts = new InterviewDraftService();
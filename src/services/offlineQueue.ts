@@ -0,0 +1,427 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { apiService } from './api';
+import { audioUploadService } from './audioUpload';
+import { quotaSnapshots } from './quotaSnapshots';
+import { recordingManifests } from './recordingManifests';
+import { AudioStatus } from '../types';
+
+const OUTBOX_STORAGE_KEY = 'interviewOutbox';
+const AUDIO_FOLLOW_UPS_STORAGE_KEY = 'interviewAudioFollowUps';
+const LOCAL_SESSION_PREFIX = 'local_';
+const AUTO_SYNC_INTERVAL_MS = 60000;
+
+export type OutboxItemStatus = 'pending' | 'syncing' | 'failed';
+
+// A completed interview, or one that ended early because the respondent was
+// screened out (not eligible, or in a full quota)
+export type OutboxItemKind = 'complete' | 'screen_out';
+
+export interface UploadedAudio {
+  uri: string;
+  status: 'uploaded' | 'pending' | 'missing';
+  audioUrl: string | null;
+  size: number;
+}
+
+// One completed interview waiting to be replayed against the backend.
+// The steps always run in the same order: start -> upload-audio -> complete.
+export interface OutboxItem {
+  id: string;
+  kind?: OutboxItemKind; // Missing on items queued before screen-outs existed
+  surveyId: string;
+  surveyName: string;
+  localSessionId: string;
+  serverSessionId: string | null;
+  // Recording segments in the order they were captured. An interview that was
+  // resumed after a crash has one segment per run.
+  audioUris: string[];
+  uploadedAudio: UploadedAudio[];
+  payload: any;
+  status: OutboxItemStatus;
+  attempts: number;
+  lastError: string | null;
+  responseId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An interview the server already has, submitted with audioStatus 'pending'.
+// Its audio fields are sent again whenever a late upload finishes, until no
+// segment is pending any more.
+export interface AudioFollowUp {
+  id: string;
+  localSessionId: string;
+  serverSessionId: string;
+  audioUris: string[];
+  uploadedAudio: UploadedAudio[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+type AudioState = Pick<OutboxItem, 'audioUris' | 'uploadedAudio'>;
+
+export interface EnqueueInterviewParams {
+  surveyId: string;
+  surveyName: string;
+  sessionId: string;
+  audioUris: string[];
+  payload: any;
+  kind?: OutboxItemKind;
+}
+
+export interface SyncResult {
+  synced: OutboxItem[];
+  remaining: number;
+  offline: boolean;
+}
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+class OfflineQueueService {
+  private syncPromise: Promise<SyncResult> | null = null;
+  private listeners: OutboxListener[] = [];
+  private syncInterval: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  createLocalSessionId(): string {
+    return `${LOCAL_SESSION_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+  }
+
+  isLocalSessionId(sessionId: string | null | undefined): boolean {
+    return !!sessionId && sessionId.startsWith(LOCAL_SESSION_PREFIX);
+  }
+
+  async getItems(): Promise<OutboxItem[]> {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading outbox:', error);
+      return [];
+    }
+  }
+
+  private async saveItems(items: OutboxItem[]) {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(items));
+    this.listeners.forEach(listener => listener(items));
+  }
+
+  private async updateItem(id: string, changes: Partial<OutboxItem>): Promise<OutboxItem | null> {
+    const items = await this.getItems();
+    const index = items.findIndex(item => item.id === id);
+    if (index === -1) return null;
+
+    items[index] = { ...items[index], ...changes, updatedAt: new Date().toISOString() };
+    await this.saveItems(items);
+    return items[index];
+  }
+
+  private async removeItem(id: string) {
+    const items = await this.getItems();
+    await this.saveItems(items.filter(item => item.id !== id));
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Store a finished interview durably. Sessions started offline carry a local
+  // session id and are started on the server during replay.
+  async enqueueInterview(params: EnqueueInterviewParams): Promise<OutboxItem> {
+    const now = new Date().toISOString();
+    const item: OutboxItem = {
+      id: params.sessionId,
+      kind: params.kind || 'complete',
+      surveyId: params.surveyId,
+      surveyName: params.surveyName,
+      localSessionId: params.sessionId,
+      serverSessionId: this.isLocalSessionId(params.sessionId) ? null : params.sessionId,
+      audioUris: params.audioUris,
+      uploadedAudio: [],
+      payload: params.payload,
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      responseId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const items = await this.getItems();
+    await this.saveItems([...items.filter(existing => existing.id !== item.id), item]);
+    console.log('📦 Interview queued for sync:', item.id);
+    return item;
+  }
+
+  // Replay queued interviews in the order they were completed. Runs are
+  // serialized so an item is never submitted twice.
+  async sync(): Promise<SyncResult> {
+    // Each run starts only after the one before it has finished
+    const run: Promise<SyncResult> = (this.syncPromise ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.runSync());
+    this.syncPromise = run;
+    try {
+      return await run;
+    } finally {
+      if (this.syncPromise === run) {
+        this.syncPromise = null;
+      }
+    }
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const synced: OutboxItem[] = [];
+    const items = await this.getItems();
+
+    for (const queued of items) {
+      const outcome = await this.syncItem(queued);
+      if (outcome === 'offline') {
+        const remaining = (await this.getItems()).length;
+        return { synced, remaining, offline: true };
+      }
+      if (outcome) {
+        synced.push(outcome);
+      }
+    }
+
+    // Recordings left pending by earlier submissions keep retrying on their
+    // own; the server hears about the ones that finish
+    await audioUploadService.processPending();
+    await this.syncAudioFollowUps();
+
+    const remaining = (await this.getItems()).length;
+    return { synced, remaining, offline: false };
+  }
+
+  private async syncItem(queued: OutboxItem): Promise<OutboxItem | 'offline' | null> {
+    let item = await this.updateItem(queued.id, { status: 'syncing', attempts: queued.attempts + 1 });
+    if (!item) return null;
+
+    // Step 1: start the session on the server if it was started offline
+    if (!item.serverSessionId) {
+      const startResult = await apiService.startInterview(item.surveyId);
+      if (!startResult.success) {
+        return this.handleFailure(item, startResult);
+      }
+      item = await this.updateItem(item.id, { serverSessionId: startResult.response.sessionId });
+      if (!item) return null;
+    }
+    const serverSessionId = item.serverSessionId as string;
+
+    // Step 2: try to upload each recording segment. A segment that cannot be
+    // uploaded yet stays on the device, queued in the audio upload service, and
+    // the interview is submitted with audioStatus 'pending' instead of waiting.
+    const uploadedAudio: UploadedAudio[] = [];
+    for (const [segmentIndex, audioUri] of item.audioUris.entries()) {
+      const previous = item.uploadedAudio.find(uploaded => uploaded.uri === audioUri);
+      if (previous && previous.status !== 'pending') {
+        uploadedAudio.push(previous);
+        continue;
+      }
+
+      const uploadResult = await audioUploadService.uploadFile({
+        id: `${item.localSessionId}_${segmentIndex}`,
+        localSessionId: item.localSessionId,
+        sessionId: serverSessionId,
+        surveyId: item.surveyId,
+        uri: audioUri,
+      });
+      if (uploadResult.success) {
+        uploadedAudio.push({ uri: audioUri, status: 'uploaded', audioUrl: uploadResult.audioUrl || null, size: uploadResult.size || 0 });
+      } else if (uploadResult.retryable) {
+        uploadedAudio.push({ uri: audioUri, status: 'pending', audioUrl: null, size: 0 });
+      } else {
+        console.error('Queued audio cannot be uploaded:', audioUri, uploadResult.message);
+        uploadedAudio.push({ uri: audioUri, status: 'missing', audioUrl: null, size: 0 });
+      }
+    }
+    item = await this.updateItem(item.id, { uploadedAudio });
+    if (!item) return null;
+
+    // Step 3: submit the completed interview, or the screen-out record
+    const completeResult = item.kind === 'screen_out'
+      ? await apiService.screenOutInterview(serverSessionId, this.buildCompletionPayload(item))
+      : await apiService.completeInterview(serverSessionId, this.buildCompletionPayload(item));
+    if (!completeResult.success) {
+      return this.handleFailure(item, completeResult);
+    }
+
+    await this.removeItem(item.id);
+    if (this.getAudioStatus(item) === 'pending') {
+      await this.addAudioFollowUp(item, serverSessionId);
+    } else {
+      // Nothing left to upload, so the files only take up space now
+      await recordingManifests.deleteRecordings(item.localSessionId, item.audioUris);
+    }
+    if (item.kind !== 'screen_out') {
+      // The server counts it from now on, so the local quota count can go once
+      // a fresh snapshot has been fetched
+      await quotaSnapshots.markSynced(item.surveyId, item.id);
+    }
+    console.log('📦 Queued interview synced:', item.id);
+    return { ...item, responseId: completeResult.response?.responseId || null };
+  }
+
+  private async handleFailure(item: OutboxItem, result: { message?: string; isNetworkError?: boolean }) {
+    if (result.isNetworkError) {
+      await this.updateItem(item.id, { status: 'pending', lastError: result.message || 'No connection' });
+      return 'offline' as const;
+    }
+
+    console.error('Queued interview rejected by server:', item.id, result.message);
+    await this.updateItem(item.id, { status: 'failed', lastError: result.message || 'Sync failed' });
+    return null;
+  }
+
+  private async getAudioFollowUps(): Promise<AudioFollowUp[]> {
+    try {
+      const stored = await AsyncStorage.getItem(AUDIO_FOLLOW_UPS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading audio follow-ups:', error);
+      return [];
+    }
+  }
+
+  private async saveAudioFollowUps(followUps: AudioFollowUp[]) {
+    await AsyncStorage.setItem(AUDIO_FOLLOW_UPS_STORAGE_KEY, JSON.stringify(followUps));
+  }
+
+  private async addAudioFollowUp(item: OutboxItem, serverSessionId: string) {
+    const now = new Date().toISOString();
+    const followUp: AudioFollowUp = {
+      id: item.id,
+      localSessionId: item.localSessionId,
+      serverSessionId,
+      audioUris: item.audioUris,
+      uploadedAudio: item.uploadedAudio,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const followUps = await this.getAudioFollowUps();
+    await this.saveAudioFollowUps([...followUps.filter(existing => existing.id !== item.id), followUp]);
+  }
+
+  // Send the audio fields of submitted interviews again once pending segments
+  // have finished uploading (or turned out to be lost)
+  private async syncAudioFollowUps() {
+    const followUps = await this.getAudioFollowUps();
+    if (followUps.length === 0) return;
+
+    const uploads = await audioUploadService.getUploads();
+    const remaining: AudioFollowUp[] = [];
+    for (const [index, followUp] of followUps.entries()) {
+      const uploadedAudio = followUp.uploadedAudio.map((uploaded, segmentIndex): UploadedAudio => {
+        if (uploaded.status !== 'pending') return uploaded;
+        const record = uploads.find(upload => upload.id === `${followUp.localSessionId}_${segmentIndex}`);
+        if (record?.status === 'completed') {
+          return { ...uploaded, status: 'uploaded', audioUrl: record.audioUrl, size: record.size };
+        }
+        if (!record || record.status === 'failed') {
+          return { ...uploaded, status: 'missing' };
+        }
+        return uploaded;
+      });
+
+      const changed = uploadedAudio.some((uploaded, segmentIndex) => uploaded.status !== followUp.uploadedAudio[segmentIndex].status);
+      if (!changed) {
+        remaining.push(followUp);
+        continue;
+      }
+
+      const updated = { ...followUp, uploadedAudio, updatedAt: new Date().toISOString() };
+      const result = await apiService.updateInterviewAudio(followUp.serverSessionId, this.buildAudioRecording(updated));
+      if (!result.success) {
+        if (result.isNetworkError) {
+          // Try again next sync, with everything not processed yet
+          remaining.push(followUp, ...followUps.slice(index + 1));
+          break;
+        }
+        console.error('Server rejected audio update:', followUp.id, result.message);
+        continue;
+      }
+
+      console.log('🎙️ Interview audio updated after late upload:', followUp.id, this.getAudioStatus(updated));
+      if (this.getAudioStatus(updated) === 'pending') {
+        remaining.push(updated);
+      } else {
+        await recordingManifests.deleteRecordings(followUp.localSessionId, followUp.audioUris);
+      }
+    }
+    await this.saveAudioFollowUps(remaining);
+  }
+
+  getAudioStatus(item: AudioState): AudioStatus {
+    if (item.audioUris.length === 0) return 'none';
+    if (item.uploadedAudio.some(uploaded => uploaded.status === 'pending')) return 'pending';
+    if (item.uploadedAudio.length === item.audioUris.length &&
+        item.uploadedAudio.every(uploaded => uploaded.status === 'uploaded')) return 'uploaded';
+    return 'missing';
+  }
+
+  // Upload state of an interview's recordings as sent to the server
+  private buildAudioRecording(item: AudioState) {
+    // One entry per recording file, so segment indices in the question
+    // timecodes still point at the right file when one is pending or missing
+    const segmentUrls = item.uploadedAudio.map(uploaded => uploaded.audioUrl);
+    const audioUrl = segmentUrls.find(url => !!url) || null;
+    const audioStatus = this.getAudioStatus(item);
+
+    return {
+      audioUrl: audioUrl,
+      audioStatus: audioStatus,
+      hasAudio: audioStatus === 'uploaded',
+      fileSize: item.uploadedAudio.reduce((total, uploaded) => total + uploaded.size, 0),
+      uploadedAt: audioUrl ? new Date().toISOString() : null,
+      ...(item.uploadedAudio.length > 1 && { segmentUrls }),
+    };
+  }
+
+  private buildCompletionPayload(item: OutboxItem) {
+    const metadata = item.payload.metadata || {};
+
+    return {
+      ...item.payload,
+      metadata: {
+        ...metadata,
+        sessionId: item.serverSessionId,
+        audioRecording: {
+          ...metadata.audioRecording,
+          ...this.buildAudioRecording(item),
+        },
+      },
+    };
+  }
+
+  startAutoSync() {
+    if (this.syncInterval) return;
+
+    this.syncInterval = setInterval(() => {
+      this.sync().catch(error => console.error('Outbox auto-sync error:', error));
+    }, AUTO_SYNC_INTERVAL_MS);
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.sync().catch(error => console.error('Outbox sync on foreground error:', error));
+      }
+    });
+
+    this.sync().catch(error => console.error('Outbox initial sync error:', error));
+  }
+
+  stopAutoSync() {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+}
+
+export const offlineQueue = new OfflineQueueService();
@@ -0,0 +1,174 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiService } from './api';
+import { QuotaCell } from '../logic/quotas';
+
+const SNAPSHOT_KEY_PREFIX = 'quotaSnapshot:';
+
+// An interview completed on this device that the last server snapshot does
+// not include yet. It is counted locally until a snapshot fetched after it
+// synced has it in the server counts.
+export interface PendingQuotaCompletion {
+  sessionId: string;
+  cellIds: string[];
+  gender: string | null;
+  completedAt: string;
+  syncedAt: string | null;
+}
+
+// The cell and gender counts come from separate requests that can fail
+// independently, so each has its own fetch time
+export interface QuotaSnapshot {
+  surveyId: string;
+  cells: QuotaCell[];
+  genderQuotas: Record<string, any> | null;
+  cellsFetchedAt: string | null;
+  genderFetchedAt: string | null;
+  fetchedAt: string | null; // The older of the two
+  pendingCompletions: PendingQuotaCompletion[];
+}
+
+// Counts with this device's unsynced completions already added
+export interface QuotaView {
+  cells: QuotaCell[];
+  genderQuotas: Record<string, any> | null;
+  fetchedAt: string | null;
+  isOffline: boolean;
+}
+
+const GENDER_QUOTA_KEYS: Record<string, string> = {
+  male: 'Male',
+  female: 'Female',
+  non_binary: 'Non-binary',
+};
+
+// Whether server counts fetched at fetchedAt already include the completion
+const isInServerCounts = (pending: PendingQuotaCompletion, fetchedAt: string | null) =>
+  !!pending.syncedAt && !!fetchedAt && pending.syncedAt <= fetchedAt;
+
+const olderOf = (first: string | null, second: string | null) =>
+  first && second ? (first < second ? first : second) : first || second;
+
+class QuotaSnapshotService {
+  private getKey(surveyId: string) {
+    return `${SNAPSHOT_KEY_PREFIX}${surveyId}`;
+  }
+
+  async getSnapshot(surveyId: string): Promise<QuotaSnapshot> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getKey(surveyId));
+      if (stored) {
+        const snapshot: QuotaSnapshot = JSON.parse(stored);
+        // Snapshots saved before the parts were tracked apart only have fetchedAt
+        return {
+          ...snapshot,
+          cellsFetchedAt: snapshot.cellsFetchedAt !== undefined ? snapshot.cellsFetchedAt : snapshot.fetchedAt,
+          genderFetchedAt: snapshot.genderFetchedAt !== undefined ? snapshot.genderFetchedAt : snapshot.fetchedAt,
+        };
+      }
+    } catch (error) {
+      console.error('Error reading quota snapshot:', error);
+    }
+    return {
+      surveyId,
+      cells: [],
+      genderQuotas: null,
+      cellsFetchedAt: null,
+      genderFetchedAt: null,
+      fetchedAt: null,
+      pendingCompletions: [],
+    };
+  }
+
+  private async saveSnapshot(snapshot: QuotaSnapshot) {
+    try {
+      await AsyncStorage.setItem(this.getKey(snapshot.surveyId), JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Error saving quota snapshot:', error);
+    }
+  }
+
+  // Fetch fresh counts from the server. When offline the cached snapshot is
+  // used instead, so quota guidance keeps working in the field.
+  async refresh(surveyId: string): Promise<QuotaView> {
+    const requestedAt = new Date().toISOString();
+    const [quotaResult, genderResult] = await Promise.all([
+      apiService.getQuotaStatus(surveyId),
+      apiService.getGenderResponseCounts(surveyId),
+    ]);
+
+    const snapshot = await this.getSnapshot(surveyId);
+    if (!quotaResult.success && !genderResult.success) {
+      return this.toView(snapshot, true);
+    }
+
+    if (quotaResult.success) {
+      snapshot.cells = quotaResult.response?.cells || [];
+      snapshot.cellsFetchedAt = requestedAt;
+    }
+    if (genderResult.success) {
+      snapshot.genderQuotas = genderResult.data?.genderQuotas || null;
+      snapshot.genderFetchedAt = requestedAt;
+    }
+    snapshot.fetchedAt = olderOf(snapshot.cellsFetchedAt, snapshot.genderFetchedAt);
+
+    // A completion can go once both sets of server counts include it
+    snapshot.pendingCompletions = snapshot.pendingCompletions.filter(pending =>
+      !isInServerCounts(pending, snapshot.cellsFetchedAt) || !isInServerCounts(pending, snapshot.genderFetchedAt)
+    );
+
+    await this.saveSnapshot(snapshot);
+    return this.toView(snapshot, false);
+  }
+
+  // Count a completed interview locally until the server has it
+  async recordLocalCompletion(surveyId: string, completion: Omit<PendingQuotaCompletion, 'completedAt' | 'syncedAt'>) {
+    const snapshot = await this.getSnapshot(surveyId);
+    snapshot.pendingCompletions = [
+      ...snapshot.pendingCompletions.filter(pending => pending.sessionId !== completion.sessionId),
+      { ...completion, completedAt: new Date().toISOString(), syncedAt: null },
+    ];
+    await this.saveSnapshot(snapshot);
+  }
+
+  // Called by the outbox once the interview has been accepted by the server
+  async markSynced(surveyId: string, sessionId: string) {
+    const snapshot = await this.getSnapshot(surveyId);
+    const pending = snapshot.pendingCompletions.find(completion => completion.sessionId === sessionId);
+    if (!pending) return;
+
+    pending.syncedAt = new Date().toISOString();
+    await this.saveSnapshot(snapshot);
+  }
+
+  private toView(snapshot: QuotaSnapshot, isOffline: boolean): QuotaView {
+    const cellsPending = snapshot.pendingCompletions.filter(pending => !isInServerCounts(pending, snapshot.cellsFetchedAt));
+    const cells = snapshot.cells.map(cell => ({
+      ...cell,
+      achieved: cell.achieved + cellsPending.filter(pending => pending.cellIds.includes(cell.id)).length,
+    }));
+
+    let genderQuotas = snapshot.genderQuotas;
+    if (genderQuotas) {
+      genderQuotas = { ...genderQuotas };
+      snapshot.pendingCompletions.forEach(pending => {
+        if (isInServerCounts(pending, snapshot.genderFetchedAt)) return;
+
+        const key = pending.gender ? GENDER_QUOTA_KEYS[pending.gender] : null;
+        const quota = key && genderQuotas?.[key];
+        if (!key || !quota) return;
+
+        const currentCount = quota.currentCount + 1;
+        (genderQuotas as Record<string, any>)[key] = {
+          ...quota,
+          currentCount,
+          percentage: quota.quota > 0 ? Math.round((currentCount / quota.quota) * 100) : quota.percentage,
+          isFull: quota.quota > 0 && currentCount >= quota.quota,
+        };
+      });
+    }
+
+    return { cells, genderQuotas, fetchedAt: snapshot.fetchedAt, isOffline };
+  }
+}
+
+export const quotaSnapshots = new QuotaSnapshotService();
@@ -0,0 +1,189 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+
+const MANIFEST_KEY_PREFIX = 'recordingManifest:';
+const RECORDINGS_DIRECTORY = `${FileSystem.documentDirectory}recordings/`;
+
+// 'recording' segments were still being written when the app last ran; after
+// a crash they are picked up as 'recovered'
+export type RecordingSegmentStatus = 'recording' | 'complete' | 'recovered';
+
+export interface RecordingSegment {
+  index: number;
+  uri: string;
+  status: RecordingSegmentStatus;
+  startedAt: string;
+  endedAt: string | null;
+  durationMillis: number;
+}
+
+// Every recording file of one interview session, in recording order
+export interface RecordingManifest {
+  sessionId: string;
+  segments: RecordingSegment[];
+  updatedAt: string;
+}
+
+// Segment metadata sent with an interview, one entry per uploaded file.
+// Files the manifest does not know (drafts saved before manifests existed,
+// segments started before the session id was set) have no timings.
+export interface RecordingFileInfo {
+  index: number;
+  status: RecordingSegmentStatus | 'unknown';
+  startedAt: string | null;
+  endedAt: string | null;
+  durationMillis: number | null;
+}
+
+class RecordingManifestService {
+  private getKey(sessionId: string) {
+    return `${MANIFEST_KEY_PREFIX}${sessionId}`;
+  }
+
+  private getSessionDirectory(sessionId: string) {
+    return `${RECORDINGS_DIRECTORY}${sessionId}/`;
+  }
+
+  async getManifest(sessionId: string): Promise<RecordingManifest> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getKey(sessionId));
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.error('Error reading recording manifest:', error);
+    }
+    return { sessionId, segments: [], updatedAt: new Date().toISOString() };
+  }
+
+  private async saveManifest(manifest: RecordingManifest) {
+    try {
+      const stored: RecordingManifest = { ...manifest, updatedAt: new Date().toISOString() };
+      await AsyncStorage.setItem(this.getKey(manifest.sessionId), JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving recording manifest:', error);
+    }
+  }
+
+  // Move a finished file out of the recorder's cache directory, which the OS
+  // may clear, into the session's own directory
+  private async moveToSessionDirectory(sessionId: string, uri: string, index: number): Promise<string> {
+    try {
+      const directory = this.getSessionDirectory(sessionId);
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+      const target = `${directory}segment_${index}.m4a`;
+      await FileSystem.moveAsync({ from: uri, to: target });
+      return target;
+    } catch (error) {
+      console.log('Keeping recording segment in place (non-fatal):', error);
+      return uri;
+    }
+  }
+
+  // Register a file the recorder has started writing
+  async startSegment(sessionId: string, uri: string) {
+    const manifest = await this.getManifest(sessionId);
+    manifest.segments.push({
+      index: manifest.segments.length,
+      uri,
+      status: 'recording',
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+      durationMillis: 0,
+    });
+    await this.saveManifest(manifest);
+  }
+
+  // Mark the file as finished and return where it now lives
+  async completeSegment(sessionId: string, uri: string, durationMillis: number): Promise<string> {
+    const manifest = await this.getManifest(sessionId);
+    const segment = manifest.segments.find(existing => existing.uri === uri);
+    if (!segment) {
+      console.log('Recording segment not in manifest:', uri);
+      return uri;
+    }
+
+    segment.uri = await this.moveToSessionDirectory(sessionId, uri, segment.index);
+    segment.status = 'complete';
+    segment.endedAt = new Date().toISOString();
+    segment.durationMillis = durationMillis;
+    await this.saveManifest(manifest);
+
+    console.log('🎙️ Recording segment saved:', segment.index, segment.uri);
+    return segment.uri;
+  }
+
+  // After a crash or app kill: keep every segment whose file made it to disk,
+  // including the one that was being written, and return them in order
+  async recoverSegments(sessionId: string): Promise<RecordingSegment[]> {
+    const manifest = await this.getManifest(sessionId);
+    const surviving: RecordingSegment[] = [];
+
+    for (const segment of manifest.segments) {
+      try {
+        const fileInfo = await FileSystem.getInfoAsync(segment.uri);
+        if (!fileInfo.exists || fileInfo.size === 0) continue;
+
+        if (segment.status === 'recording') {
+          segment.uri = await this.moveToSessionDirectory(sessionId, segment.uri, segment.index);
+          segment.status = 'recovered';
+          segment.endedAt = new Date().toISOString();
+        }
+        surviving.push(segment);
+      } catch (error) {
+        console.log('Recording segment check failed (non-fatal):', error);
+      }
+    }
+
+    manifest.segments = surviving;
+    await this.saveManifest(manifest);
+    if (surviving.length > 0) {
+      console.log(`🎙️ Recovered ${surviving.length} recording segment(s) for session`, sessionId);
+    }
+    return surviving;
+  }
+
+  // Metadata for the given files, in the same order, so it lines up with
+  // the files the outbox uploads
+  async describeFiles(sessionId: string, uris: string[]): Promise<RecordingFileInfo[]> {
+    const manifest = await this.getManifest(sessionId);
+    return uris.map((uri, index) => {
+      const segment = manifest.segments.find(existing => existing.uri === uri);
+      return {
+        index,
+        status: segment?.status || 'unknown',
+        startedAt: segment?.startedAt || null,
+        endedAt: segment?.endedAt || null,
+        durationMillis: segment ? segment.durationMillis : null,
+      };
+    });
+  }
+
+  // Delete an interview's recording files once the server has every one of
+  // them. Files that never made it into the session directory (the move is
+  // best effort) are deleted where they are.
+  async deleteRecordings(sessionId: string, uris: string[]) {
+    try {
+      await FileSystem.deleteAsync(this.getSessionDirectory(sessionId), { idempotent: true });
+      for (const uri of uris) {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      }
+      console.log('🗑️ Deleted uploaded recordings for session', sessionId);
+    } catch (error) {
+      console.error('Error deleting recordings:', error);
+    }
+  }
+
+  // Drop the manifest once the outbox holds the files. Abandoned interviews
+  // also delete their recordings.
+  async removeManifest(sessionId: string, deleteFiles: boolean = false) {
+    try {
+      await AsyncStorage.removeItem(this.getKey(sessionId));
+      if (deleteFiles) {
+        await FileSystem.deleteAsync(this.getSessionDirectory(sessionId), { idempotent: true });
+      }
+    } catch (error) {
+      console.error('Error removing recording manifest:', error);
+    }
+  }
+}
+
+export const recordingManifests = new RecordingManifestService();
@@ -1,3 +1,13 @@
+import { ConditionNode } from '../logic/conditions';
+import { MatrixItem } from '../logic/matrix';
+import { LoopConfig } from '../logic/loops';
+import { QuestionValidation } from '../logic/validation';
+import { QualityMetrics } from '../logic/qualityMetrics';
+import { QualityCheckSettings } from '../logic/qualityFlags';
+import { QuestionTimecode } from '../logic/audioTimecodes';
+import { TrailPoint, TrailSummary } from '../logic/locationTrail';
+import { SpoofingAssessment } from '../logic/spoofing';
+
 export interface User {
   _id: string;
   firstName: string;
@@ -62,6 +72,16 @@ export interface Survey {
   startDate?: string;
   purpose?: string;
   costPerInterview?: number;
+  qualityChecks?: QualityCheckSettings; // Speeding and straight-lining thresholds
+  geocoding?: {
+    allowNetwork?: boolean; // Send rounded positions to network geocoders; otherwise addresses come from offline boundaries only
+  };
+  locationChecks?: {
+    blockMockLocation?: boolean; // Refuse to start CAPI interviews while a mock location app is active
+    minAccuracy?: number; // Metres; CAPI interviews wait for a GPS fix at least this accurate
+    gpsWaitSeconds?: number; // How long to wait for that fix before offering retry and override (default 60)
+    allowManualOverride?: boolean; // Defaults to true
+  };
 }
 
 export interface Section {
@@ -71,18 +91,22 @@ export interface Section {
   description?: string;
   questions: Question[];
   order: number;
+  loop?: LoopConfig; // Repeat the section once per member listed in an earlier answer
 }
 
 export interface Question {
   _id?: string;
   id?: string;
-  type: 'text' | 'multiple_choice' | 'single_choice' | 'rating' | 'date' | 'number' | 'numeric';
+  type: 'text' | 'multiple_choice' | 'single_choice' | 'rating' | 'date' | 'number' | 'numeric' | 'matrix' | 'ranking' | 'calculated';
   text: string;
   options?: string[] | Array<{ id?: string; text: string; value?: string; code?: string }>;
+  rows?: MatrixItem[]; // Matrix questions only
+  columns?: MatrixItem[]; // Matrix questions only
   required: boolean;
   order: number;
   description?: string;
-  conditions?: any[];
+  conditions?: ConditionNode[];
+  expression?: string; // Calculated questions only, see logic/expressions
   scale?: {
     min?: number;
     max?: number;
@@ -91,20 +115,19 @@ export interface Question {
     minLabel?: string;
     maxLabel?: string;
   };
-  validation?: {
-    min?: number;
-    max?: number;
-    pattern?: string;
-  };
+  validation?: QuestionValidation;
   settings?: {
     allowMultiple?: boolean;
     maxSelections?: number;
     allowOther?: boolean;
+    maxRank?: number; // Ranking questions: only the top N are ranked
   };
 }
 
 export interface SurveyResponse {
   _id: string;
+  sessionId?: string;
+  responseId?: string;
   surveyId: string;
   survey: Survey;
   interviewerId: string;
@@ -116,19 +139,33 @@ export interface SurveyResponse {
   submittedAt?: string;
   locationData?: LocationData;
   location?: LocationData;
+  locationTrail?: {
+    points: TrailPoint[];
+    summary?: TrailSummary;
+  };
+  locationSpoofing?: SpoofingAssessment;
   audioUrl?: string;
   audioRecording?: {
     url?: string;
     audioUrl?: string;
+    hasAudio?: boolean;
+    audioStatus?: AudioStatus;
     fileSize?: number;
     format?: string;
     duration?: number;
+    segmentUrls?: (string | null)[]; // One per recording file; null while a file is not uploaded
+    questionTimecodes?: QuestionTimecode[];
   };
   totalDuration?: number;
+  qualityMetrics?: Partial<QualityMetrics>; // Older interviews only have score, average time and back navigation
   createdAt: string;
   updatedAt: string;
 }
 
+// Where an interview's recording stands. 'pending' means the file is still on
+// the device and queued for upload; only 'uploaded' means it exists on the server.
+export type AudioStatus = 'uploaded' | 'pending' | 'missing' | 'none';
+
 export interface ResponseData {
   questionId: string;
   question: Question;
@@ -146,6 +183,23 @@ export interface LocationData {
   country: string;
   timestamp: string;
   source: 'gps' | 'wifi_triangulation' | 'network' | 'google_maps' | 'manual';
+  fixTimestamp?: string;
+  mocked?: boolean;
+  override?: LocationOverride;
+  district?: string;
+  ac?: string;
+  village?: string;
+  addressSource?: 'offline' | 'network' | 'coordinates';
+}
+
+// Audit record for an interview started without a GPS fix of the survey's
+// required accuracy. The location then has source 'manual'.
+export interface LocationOverride {
+  reason: string;
+  requiredAccuracy: number | null; // metres
+  bestAccuracy: number | null; // Best fix seen while waiting; null when there was none
+  waitedSeconds: number;
+  overriddenAt: string;
 }
 
 export interface ApiResponse<T = any> {
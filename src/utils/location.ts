@@ -1,4 +1,6 @@
 import * as Location from 'expo-location';
+import { LocationOverride } from '../types';
+import { AddressSource, GeocodedAddress, Geocoder } from '../services/geocoding';
 
 export interface LocationResult {
   latitude: number;
@@ -10,8 +12,21 @@ export interface LocationResult {
   country: string;
   timestamp: string;
   source: 'gps' | 'wifi_triangulation' | 'network' | 'google_maps' | 'manual';
+  fixTimestamp?: string; // When the provider took the fix, for spoofing checks
+  mocked?: boolean; // Android reports fixes from mock location apps
+  override?: LocationOverride; // Set when the interviewer started without the required accuracy
+  district?: string;
+  ac?: string;
+  village?: string;
+  addressSource?: AddressSource;
 }
 
+export type PositionFix = Pick<LocationResult, 'latitude' | 'longitude' | 'accuracy' | 'timestamp' | 'source' | 'fixTimestamp' | 'mocked'>;
+
+// A reported accuracy of 0 means the provider did not give one
+export const meetsAccuracy = (fix: { accuracy: number }, requiredAccuracy?: number | null) =>
+  !requiredAccuracy || (fix.accuracy > 0 && fix.accuracy <= requiredAccuracy);
+
 export class LocationService {
   static async requestPermissions(): Promise<boolean> {
     try {
@@ -23,7 +38,8 @@ export class LocationService {
     }
   }
 
-  static async getCurrentLocation(): Promise<LocationResult> {
+  // Without a geocoder the address is just the coordinates
+  static async getCurrentLocation(geocoder?: Geocoder | null): Promise<LocationResult> {
     try {
       // Request permissions first
       const hasPermission = await this.requestPermissions();
@@ -37,19 +53,15 @@ export class LocationService {
           accuracy: Location.Accuracy.High,
         });
 
-        const address = await this.reverseGeocode(location.coords.latitude, location.coords.longitude);
-
-        return {
+        return this.toLocationResult({
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
           accuracy: location.coords.accuracy || 0,
-          address: address.formatted,
-          city: address.city,
-          state: address.state,
-          country: address.country,
           timestamp: new Date().toISOString(),
           source: 'gps',
-        };
+          fixTimestamp: new Date(location.timestamp).toISOString(),
+          mocked: location.mocked,
+        }, geocoder);
       } catch (gpsError) {
         console.warn('GPS location failed, trying network location:', gpsError);
         
@@ -58,19 +70,15 @@ export class LocationService {
           accuracy: Location.Accuracy.Balanced,
         });
 
-        const address = await this.reverseGeocode(location.coords.latitude, location.coords.longitude);
-
-        return {
+        return this.toLocationResult({
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
           accuracy: location.coords.accuracy || 0,
-          address: address.formatted,
-          city: address.city,
-          state: address.state,
-          country: address.country,
           timestamp: new Date().toISOString(),
           source: 'wifi_triangulation',
-        };
+          fixTimestamp: new Date(location.timestamp).toISOString(),
+          mocked: location.mocked,
+        }, geocoder);
       }
     } catch (error: any) {
       console.error('Location detection failed:', error);
@@ -78,69 +86,84 @@ export class LocationService {
     }
   }
 
-  static async reverseGeocode(latitude: number, longitude: number) {
-    try {
-      // Use Expo's built-in reverse geocoding
-      const addresses = await Location.reverseGeocodeAsync({
-        latitude,
-        longitude,
-      });
+  // A position fix without reverse geocoding, cheap enough to take repeatedly
+  // during an interview. Does not ask for permission.
+  static async getPositionFix(): Promise<PositionFix> {
+    const location = await Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.High,
+    });
+    return {
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      accuracy: location.coords.accuracy || 0,
+      timestamp: new Date().toISOString(),
+      source: 'gps',
+      fixTimestamp: new Date(location.timestamp).toISOString(),
+      mocked: location.mocked,
+    };
+  }
 
-      if (addresses.length > 0) {
-        const address = addresses[0];
-        return {
-          formatted: `${address.street || ''} ${address.streetNumber || ''}, ${address.city || ''}, ${address.region || ''}, ${address.country || ''}`.trim(),
-          street: `${address.street || ''} ${address.streetNumber || ''}`.trim(),
-          city: address.city || '',
-          state: address.region || '',
-          country: address.country || '',
-          postalCode: address.postalCode || '',
-        };
-      } else {
-        // Fallback to free Nominatim API
-        return await this.reverseGeocodeNominatim(latitude, longitude);
-      }
-    } catch (error) {
-      console.warn('Expo reverse geocoding failed, trying Nominatim:', error);
-      return await this.reverseGeocodeNominatim(latitude, longitude);
+  // Stream fixes from the GPS receiver, e.g. while waiting for accuracy to
+  // settle. Call remove() on the result to stop.
+  static async watchPositionFixes(onFix: (fix: PositionFix) => void): Promise<Location.LocationSubscription> {
+    const hasPermission = await this.requestPermissions();
+    if (!hasPermission) {
+      throw new Error('Location permission denied');
     }
+
+    return Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.Highest,
+        timeInterval: 1000,
+        distanceInterval: 0,
+      },
+      (location) => onFix({
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy || 0,
+        timestamp: new Date().toISOString(),
+        source: 'gps',
+        fixTimestamp: new Date(location.timestamp).toISOString(),
+        mocked: location.mocked,
+      })
+    );
+  }
+
+  // Add the address to a fix
+  static async toLocationResult(fix: PositionFix, geocoder?: Geocoder | null): Promise<LocationResult> {
+    const address = await this.reverseGeocode(fix.latitude, fix.longitude, geocoder);
+    return {
+      ...fix,
+      address: address.formatted,
+      city: address.city,
+      state: address.state,
+      country: address.country,
+      district: address.district,
+      ac: address.ac,
+      village: address.village,
+      addressSource: address.source,
+    };
   }
 
-  static async reverseGeocodeNominatim(latitude: number, longitude: number) {
+  // Which services see the position is up to the geocoder; see
+  // createGeocoder. Falls back to the coordinates themselves.
+  static async reverseGeocode(latitude: number, longitude: number, geocoder?: Geocoder | null): Promise<GeocodedAddress> {
     try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&addressdetails=1`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data && data.display_name) {
-        return {
-          formatted: data.display_name,
-          street: data.address?.road || data.address?.house_number || '',
-          city: data.address?.city || data.address?.town || data.address?.village || '',
-          state: data.address?.state || data.address?.county || '',
-          country: data.address?.country || '',
-          postalCode: data.address?.postcode || '',
-        };
-      } else {
-        throw new Error('No address data received from Nominatim');
-      }
+      const address = geocoder ? await geocoder.reverseGeocode(latitude, longitude) : null;
+      if (address) return address;
     } catch (error) {
-      console.error('Nominatim reverse geocoding failed:', error);
-      return {
-        formatted: `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`,
-        street: '',
-        city: '',
-        state: '',
-        country: '',
-        postalCode: '',
-      };
+      console.warn('Reverse geocoding failed:', error);
     }
+
+    return {
+      formatted: `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`,
+      street: '',
+      city: '',
+      state: '',
+      country: '',
+      postalCode: '',
+      source: 'coordinates',
+    };
   }
 
   static formatLocationForDisplay(location: LocationResult): string {
@@ -0,0 +1,133 @@
+// Incremental SHA-256 so large recordings can be hashed chunk by chunk
+// without holding the whole file in memory.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = (() => {
+  const lookup = new Uint8Array(256);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+  return lookup;
+})();
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean.charCodeAt(i)];
+    const b = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+    const c = BASE64_LOOKUP[clean.charCodeAt(i + 2)];
+    const d = BASE64_LOOKUP[clean.charCodeAt(i + 3)];
+
+    bytes[byteIndex++] = (a << 2) | (b >> 4);
+    if (i + 2 < clean.length) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
+    if (i + 3 < clean.length) bytes[byteIndex++] = ((c & 3) << 6) | d;
+  }
+
+  return bytes.subarray(0, byteIndex);
+};
+
+export class Sha256 {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private buffer = new Uint8Array(64);
+  private bufferLength = 0;
+  private bytesHashed = 0;
+  private words = new Uint32Array(64);
+
+  update(data: Uint8Array): this {
+    let offset = 0;
+    this.bytesHashed += data.length;
+
+    while (offset < data.length) {
+      const take = Math.min(64 - this.bufferLength, data.length - offset);
+      this.buffer.set(data.subarray(offset, offset + take), this.bufferLength);
+      this.bufferLength += take;
+      offset += take;
+
+      if (this.bufferLength === 64) {
+        this.processBlock(this.buffer);
+        this.bufferLength = 0;
+      }
+    }
+    return this;
+  }
+
+  // Returns the lowercase hex digest. The instance must not be reused afterwards.
+  digest(): string {
+    const bitLengthHigh = Math.floor(this.bytesHashed / 0x20000000);
+    const bitLengthLow = (this.bytesHashed << 3) >>> 0;
+
+    const padding = new Uint8Array(this.bufferLength < 56 ? 64 - this.bufferLength : 128 - this.bufferLength);
+    padding[0] = 0x80;
+    const lengthBytes = new Uint8Array(8);
+    const view = new DataView(lengthBytes.buffer);
+    view.setUint32(0, bitLengthHigh);
+    view.setUint32(4, bitLengthLow);
+
+    const savedBytesHashed = this.bytesHashed;
+    this.update(padding.subarray(0, padding.length - 8));
+    this.update(lengthBytes);
+    this.bytesHashed = savedBytesHashed;
+
+    return Array.from(this.state)
+      .map(word => word.toString(16).padStart(8, '0'))
+      .join('');
+  }
+
+  private processBlock(block: Uint8Array) {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      w[i] = (block[i * 4] << 24) | (block[i * 4 + 1] << 16) | (block[i * 4 + 2] << 8) | block[i * 4 + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+    this.state[4] += e;
+    this.state[5] += f;
+    this.state[6] += g;
+    this.state[7] += h;
+  }
+}
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));